@@ -0,0 +1,77 @@
+// ============================================================================
+// /fsd-init CLI
+// ============================================================================
+// Creates the layer directories of the FSD config (bundled
+// dependency-rules.json merged with the project's .fsdrc.json), including
+// custom layers and the custom segments of app/shared. Existing directories
+// are left alone; new ones get a `.gitkeep`.
+//
+// Usage:
+//   bun scripts/fsd-init.ts [options]
+//
+// Options:
+//   --root <dir>     Project root (default: current directory)
+//   --src <dir>      Source directory holding the layers (default: from pathAliases)
+//   --config <file>  Config file (default: .fsdrc.json in the root, when present)
+//   --dry-run        Print the directories that would be created
+//
+// Prints the matching tsconfig `paths` entries afterwards.
+// ============================================================================
+
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadFsdConfig } from './fsd/config.ts';
+import { inferSrcDir } from './fsd/layout.ts';
+import { planLayerDirectories, tsconfigPaths } from './fsd/scaffold.ts';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      root: { type: 'string', default: process.cwd() },
+      src: { type: 'string' },
+      config: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const { rules } = await loadFsdConfig({ root: values.root, configPath: values.config });
+  const srcDir = join(values.root, values.src ?? inferSrcDir(rules));
+
+  const created: string[] = [];
+  for (const directory of planLayerDirectories(rules)) {
+    const target = join(srcDir, directory);
+    if (await exists(target)) continue;
+
+    if (!values['dry-run']) {
+      await mkdir(target, { recursive: true });
+      await writeFile(join(target, '.gitkeep'), '');
+    }
+    created.push(target);
+  }
+
+  const verb = values['dry-run'] ? 'Would create' : 'Created';
+  console.log(
+    created.length === 0 ? '✅ Every layer directory already exists' : `${verb} ${created.length} directories:`
+  );
+  for (const target of created) {
+    console.log(`- ${relative(process.cwd(), target)}/`);
+  }
+
+  console.log('\ntsconfig.json compilerOptions.paths:');
+  console.log(JSON.stringify(tsconfigPaths(rules), null, 2));
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
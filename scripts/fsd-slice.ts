@@ -0,0 +1,156 @@
+// ============================================================================
+// /fsd-slice CLI
+// ============================================================================
+// Renders a bundled slice template into the project's source directory.
+//
+// Usage:
+//   bun scripts/fsd-slice.ts <entity|feature|widget> <slice-name> [name=value...] [options]
+//   bun scripts/fsd-slice.ts <custom-layer> <slice-name> [options]
+//
+// The slice name must be lowercase kebab-case; every case form the template
+// needs ({{entityName}}, {{EntityName}}, ...) is derived from it. Extra
+// `name=value` arguments add or override placeholder values.
+//
+// Layers and segments come from the FSD config (.fsdrc.json): a custom layer
+// gets a skeleton slice, and custom segments can be selected like built-in ones.
+//
+// Options:
+//   --segments <list>   Comma-separated segments to generate (default: all;
+//                       for custom layers the layer's `segments`)
+//   --no-react-query    Skip queryOptions / query key factories (entities)
+//   --pagination <style>
+//                       Pagination of the entity's list endpoint:
+//                       offset (default), cursor or keyset
+//   --out <dir>         Source directory to write into (default: from pathAliases)
+//   --config <file>     Config file (default: .fsdrc.json, when present)
+//   --dry-run           Print the files that would be generated
+//   --force             Overwrite existing files
+//
+// Example:
+//   bun scripts/fsd-slice.ts entity order-item --segments model,api
+//   bun scripts/fsd-slice.ts entity post --pagination cursor
+//   bun scripts/fsd-slice.ts processes checkout --segments model,ui
+// ============================================================================
+
+import { parseArgs } from 'node:util';
+import { relative } from 'node:path';
+import { loadFsdConfig } from './fsd/config.ts';
+import { inferSrcDir } from './fsd/layout.ts';
+import {
+  generateLayerSlice,
+  generateSlice,
+  PAGINATION_STYLES,
+  type GeneratedSlice,
+  type PaginationStyle,
+} from './fsd/slice-generator.ts';
+import {
+  FileExistsError,
+  SLICE_TEMPLATES,
+  writeRenderedFiles,
+  type SliceKind,
+} from './fsd/template-renderer.ts';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      segments: { type: 'string' },
+      'no-react-query': { type: 'boolean', default: false },
+      pagination: { type: 'string' },
+      out: { type: 'string' },
+      config: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+    },
+  });
+
+  const [kind, name, ...assignments] = positionals;
+  const { rules } = await loadFsdConfig({ configPath: values.config });
+  const customLayers = Object.keys(rules.layers).filter((layer) => !BUILT_IN_LAYERS.includes(layer));
+
+  if (kind === undefined || (!isSliceKind(kind) && !customLayers.includes(kind))) {
+    throw new Error(
+      `Unknown slice kind "${kind ?? ''}". Expected one of: ${[...Object.keys(SLICE_TEMPLATES), ...customLayers].join(', ')}`
+    );
+  }
+
+  if (!name) {
+    throw new Error('Missing slice name (e.g. order-item)');
+  }
+
+  const segments = values.segments?.split(',').map((segment) => segment.trim()).filter(Boolean);
+  const knownSegments = Object.keys(rules.segments);
+  const { files, impliedSegments }: GeneratedSlice = isSliceKind(kind)
+    ? await generateSlice({
+        kind,
+        name,
+        values: parseAssignments(assignments),
+        segments,
+        reactQuery: !values['no-react-query'],
+        pagination: parsePagination(values.pagination),
+        knownSegments,
+      })
+    : generateLayerSlice({
+        layer: kind,
+        name,
+        segments: segments ?? rules.layers[kind].segments ?? [],
+        knownSegments,
+      });
+
+  for (const segment of impliedSegments) {
+    console.log(`ℹ️  Added segment "${segment}" (imported by a selected segment)`);
+  }
+
+  const written = await writeRenderedFiles(files, values.out ?? inferSrcDir(rules), {
+    overwrite: values.force,
+    dryRun: values['dry-run'],
+  });
+
+  const verb = values['dry-run'] ? 'Would generate' : 'Generated';
+  console.log(`${verb} ${written.length} files:`);
+  for (const path of written) {
+    console.log(`- ${relative(process.cwd(), path)}`);
+  }
+}
+
+/**
+ * Layers of the bundled config; any other layer in the project config is custom
+ */
+const BUILT_IN_LAYERS = ['app', 'pages', 'widgets', 'features', 'entities', 'shared'];
+
+function isSliceKind(value: string | undefined): value is SliceKind {
+  return value !== undefined && Object.prototype.hasOwnProperty.call(SLICE_TEMPLATES, value);
+}
+
+function parsePagination(value: string | undefined): PaginationStyle | undefined {
+  if (value === undefined || (PAGINATION_STYLES as readonly string[]).includes(value)) {
+    return value as PaginationStyle | undefined;
+  }
+  throw new Error(`Unknown pagination style "${value}". Expected one of: ${PAGINATION_STYLES.join(', ')}`);
+}
+
+/**
+ * Parse `name=value` positional arguments into placeholder values
+ */
+function parseAssignments(assignments: string[]): Record<string, string> {
+  const placeholders: Record<string, string> = {};
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Expected name=value, got "${assignment}"`);
+    }
+    placeholders[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+  }
+
+  return placeholders;
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof FileExistsError) {
+    console.error(`❌ ${error.message} (use --force to overwrite)`);
+  } else {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  }
+  process.exit(1);
+});
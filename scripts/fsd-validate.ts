@@ -0,0 +1,255 @@
+// ============================================================================
+// /fsd-validate CLI
+// ============================================================================
+// Validates the imports of an FSD project against its FSD config (bundled
+// dependency-rules.json merged with the project's .fsdrc.json) and prints a
+// report. Exits with code 1 when errors are found (or warnings, in
+// strict mode), so it can run in a pre-commit hook or CI.
+//
+// Usage:
+//   bun scripts/fsd-validate.ts [options]
+//
+// Options:
+//   --root <dir>     Project root (default: current directory)
+//   --src <dir>      Source directory holding the layers (default: from pathAliases)
+//   --config <file>  Config file (default: .fsdrc.json in the root, when present)
+//   --scope <path>   Only validate a layer or slice (e.g. features, features/auth)
+//   --strict         Treat warnings as errors
+//   --format <name>  text (default), json, sarif or junit
+//   --output <file>  Write the report to a file instead of stdout
+//   --fix            Fix Public API violations (deep imports, missing index.ts,
+//                    re-export order), then report what is left
+//   --dry-run        With --fix: print the changes as a diff without writing
+//   --baseline <file>     Baseline of known violations (default: .fsd-baseline.json
+//                         in the root, used when it exists)
+//   --update-baseline     Record the current violations as the baseline
+//   --ignore-baseline     Report every violation, including baselined ones
+// ============================================================================
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { applyFixes, formatFixDiff, planFixes, type FixPlan } from './fsd/autofix.ts';
+import {
+  BASELINE_FILE,
+  baselineEntryFile,
+  compareWithBaseline,
+  createBaseline,
+  isEntryInScope,
+  loadBaseline,
+  saveBaseline,
+  type BaselineComparison,
+  type BaselineEntry,
+} from './fsd/baseline.ts';
+import { loadFsdConfig } from './fsd/config.ts';
+import { inferSrcDir } from './fsd/layout.ts';
+import { scanProject } from './fsd/project.ts';
+import { validateImports, type FsdRuleId, type Violation } from './fsd/validator.ts';
+import { assertReportFormat, serializeReport } from './report/format.ts';
+import { createReport, type AnalysisReport } from './report/model.ts';
+
+const RULE_TITLES: Record<FsdRuleId, string> = {
+  'layer-violation': 'Layer dependency violation',
+  'cross-slice-import': 'Cross-slice import',
+  'public-api-violation': 'Public API violation',
+  'missing-public-api': 'Missing Public API',
+  'circular-dependency': 'Circular dependency',
+  'segment-organization': 'Segment organization',
+};
+
+const FIXED_BASELINE_RULE = 'fixed-baseline-entry';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      root: { type: 'string', default: process.cwd() },
+      src: { type: 'string' },
+      config: { type: 'string' },
+      scope: { type: 'string' },
+      strict: { type: 'boolean', default: false },
+      format: { type: 'string', default: 'text' },
+      output: { type: 'string' },
+      fix: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean', default: false },
+      'ignore-baseline': { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.format !== 'text') assertReportFormat(values.format);
+  if (values['update-baseline'] && values.scope) {
+    throw new Error('--update-baseline records the whole project; drop --scope');
+  }
+
+  const { rules } = await loadFsdConfig({ root: values.root, configPath: values.config });
+  const srcDir = values.src ?? inferSrcDir(rules);
+  const validate = async () => {
+    const files = await scanProject({ root: values.root, srcDir, ignorePatterns: rules.ignorePatterns });
+    const violations = validateImports(files, rules, { srcDir, scope: values.scope }).map((violation) =>
+      values.strict ? { ...violation, severity: 'error' as const } : violation
+    );
+    return { files, violations };
+  };
+
+  let { files, violations } = await validate();
+
+  if (values.fix) {
+    const plan = planFixes(files, violations, rules, { srcDir, scope: values.scope });
+
+    if (values['dry-run']) {
+      process.stdout.write(`${formatFixSummary(plan, true)}\n${formatFixDiff(plan)}`);
+      return;
+    }
+
+    await applyFixes(plan, values.root);
+    // Keep stdout parseable for the machine-readable formats
+    (values.format === 'text' ? console.log : console.error)(formatFixSummary(plan, false));
+    ({ files, violations } = await validate());
+  }
+
+  const baselinePath = values.baseline ?? join(values.root, BASELINE_FILE);
+
+  if (values['update-baseline']) {
+    await saveBaseline(baselinePath, createBaseline(violations));
+    console.log(`📌 Recorded ${violations.length} violations in ${baselinePath}`);
+    return;
+  }
+
+  const baseline = values['ignore-baseline'] ? null : await loadBaseline(baselinePath);
+  const comparison = baseline
+    ? compareWithBaseline(violations, baseline, (entry) => isEntryInScope(entry, values.scope, srcDir, rules))
+    : undefined;
+  if (comparison) violations = comparison.newViolations;
+
+  const output =
+    values.format === 'text'
+      ? `${formatReport(violations, files.length, comparison)}\n`
+      : serializeReport(await buildReport(violations, files.length, comparison), values.format);
+
+  if (values.output) {
+    await writeFile(values.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (violations.some((violation) => violation.severity === 'error')) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Summary of the planned (dry run) or applied fixes
+ */
+function formatFixSummary(plan: FixPlan, dryRun: boolean): string {
+  const lines = [
+    plan.fixes.length === 0
+      ? '🔧 Nothing to fix automatically'
+      : `🔧 ${dryRun ? 'Would apply' : 'Applied'} ${plan.fixes.length} fixes:`,
+    ...plan.fixes.map((fix) => `   - ${fix.file}${fix.line > 0 ? `:${fix.line}` : ''}: ${fix.description}`),
+  ];
+
+  if (plan.skipped.length > 0) {
+    lines.push('', `Manual fix needed (${plan.skipped.length}):`);
+    for (const { violation, reason } of plan.skipped) {
+      lines.push(`   - ${violation.file}:${violation.line}: ${reason}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Shared report model (scripts/report) for the machine-readable formats
+ */
+async function buildReport(
+  violations: Violation[],
+  fileCount: number,
+  baseline?: BaselineComparison
+): Promise<AnalysisReport> {
+  const pkg = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf8'));
+  const rules = (Object.keys(RULE_TITLES) as FsdRuleId[]).map((id) => ({ id, name: RULE_TITLES[id] }));
+
+  return createReport({
+    tool: { name: 'fsd-validate', version: pkg.version, informationUri: pkg.homepage },
+    command: '/fsd-validate',
+    rules: baseline ? [...rules, { id: FIXED_BASELINE_RULE, name: 'Fixed baseline entry' }] : rules,
+    findings: [
+      ...violations.map((violation) => ({
+        ruleId: violation.rule,
+        level: violation.severity,
+        message: violation.message,
+        file: violation.file,
+        ...(violation.line > 0 && { line: violation.line, column: violation.column }),
+        ...(violation.snippet && { snippet: violation.snippet }),
+        ...(violation.suggestion && { suggestion: violation.suggestion }),
+      })),
+      ...(baseline?.fixed ?? []).map((entry) => ({
+        ruleId: FIXED_BASELINE_RULE,
+        level: 'note' as const,
+        message: `Baseline entry no longer occurs: ${describeBaselineEntry(entry)}`,
+        file: baselineEntryFile(entry),
+        suggestion: 'Remove it with --update-baseline',
+      })),
+    ],
+    metrics: {
+      filesScanned: fileCount,
+      ...(baseline && { baselined: baseline.baselined.length, fixedBaselineEntries: baseline.fixed.length }),
+    },
+  });
+}
+
+/**
+ * Human-readable report (same layout as the /fsd-validate command)
+ */
+function formatReport(violations: Violation[], fileCount: number, baseline?: BaselineComparison): string {
+  const errors = violations.filter((violation) => violation.severity === 'error').length;
+  const warnings = violations.length - errors;
+  const lines = [
+    '🔍 FSD Architecture Validation Report',
+    '=====================================',
+    '',
+    `Files Scanned: ${fileCount}`,
+    `Issues Found: ${violations.length} (${errors} errors, ${warnings} warnings)`,
+    ...(baseline ? [`Baselined: ${baseline.baselined.length} known violations hidden`] : []),
+    '',
+  ];
+
+  for (const violation of violations) {
+    const label = violation.severity === 'error' ? '❌ ERROR' : '⚠️ WARNING';
+    lines.push(`${label}: ${RULE_TITLES[violation.rule]}`);
+    lines.push(`   File: ${violation.file}${violation.line > 0 ? `:${violation.line}` : ''}`);
+    lines.push(`   Issue: ${violation.message}`);
+    if (violation.snippet) lines.push(`   → ${violation.snippet}`);
+    if (violation.suggestion) lines.push(`   Fix: ${violation.suggestion}`);
+    lines.push('');
+  }
+
+  if (baseline && baseline.fixed.length > 0) {
+    lines.push(`🧹 Fixed baseline entries (${baseline.fixed.length}) — remove them with --update-baseline:`);
+    baseline.fixed.forEach((entry) => lines.push(`   - ${describeBaselineEntry(entry)}`));
+    lines.push('');
+  }
+
+  const status =
+    violations.length === 0
+      ? '✅ PASSED'
+      : errors > 0
+        ? `❌ FAILED (${violations.length} issues)`
+        : `⚠️ NEEDS ATTENTION (${violations.length} issues)`;
+  lines.push('---', `Overall Status: ${status}`);
+
+  return lines.join('\n');
+}
+
+function describeBaselineEntry(entry: BaselineEntry): string {
+  const specifier = entry.specifier ? ` '${entry.specifier}'` : '';
+  const count = entry.count > 1 ? ` (×${entry.count})` : '';
+  const file = baselineEntryFile(entry);
+  return `${entry.rule}${file ? ` in ${file}` : ''}${specifier}${count}`;
+}
+
+main().catch((error: unknown) => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(2);
+});
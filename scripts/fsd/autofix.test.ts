@@ -0,0 +1,193 @@
+import { describe, expect, test } from 'bun:test';
+import { formatFixDiff, orderPublicApi, planFixes, PUBLIC_API_SEGMENT_ORDER, type FixPlan } from './autofix.ts';
+import { loadFsdConfig } from './config.ts';
+import { parseImports } from './imports.ts';
+import type { ProjectFile } from './project.ts';
+import { validateImports } from './validator.ts';
+
+const { rules } = await loadFsdConfig({ root: import.meta.dir });
+
+function project(sources: Record<string, string>): ProjectFile[] {
+  return Object.entries(sources).map(([path, content]) => ({ path, content, imports: parseImports(content) }));
+}
+
+function plan(sources: Record<string, string>): FixPlan {
+  const files = project(sources);
+  return planFixes(files, validateImports(files, rules, { srcDir: 'src' }), rules, { srcDir: 'src' });
+}
+
+function contents(fixPlan: FixPlan): Record<string, string> {
+  return Object.fromEntries(fixPlan.changes.map((change) => [change.path, change.after]));
+}
+
+const USER_TYPES = 'export interface User { id: string }\nexport type Role = "admin";\nexport function format(user: User) { return user.id; }\n';
+
+describe('planFixes: deep imports', () => {
+  test('rewrites the import and merges the missing name into an existing re-export', () => {
+    const result = plan({
+      'src/entities/user/model/types.ts': USER_TYPES,
+      'src/entities/user/index.ts': "export { type Role } from './model/types';\n",
+      'src/features/auth/model/login.ts': "import { format } from '@/entities/user/model/types';\nexport const login = format;\n",
+      'src/features/auth/index.ts': "export { login } from './model/login';\n",
+    });
+
+    expect(contents(result)).toEqual({
+      'src/entities/user/index.ts': "export { type Role, format } from './model/types';\n",
+      'src/features/auth/model/login.ts': "import { format } from '@/entities/user';\nexport const login = format;\n",
+    });
+    expect(result.fixes).toEqual([
+      {
+        kind: 'public-api-import',
+        file: 'src/features/auth/model/login.ts',
+        line: 1,
+        description: "'@/entities/user/model/types' → '@/entities/user' (exported format from src/entities/user/index.ts)",
+      },
+    ]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  test('only rewrites the import when the slice already exports the same symbol', () => {
+    const result = plan({
+      'src/entities/user/model/types.ts': USER_TYPES,
+      'src/entities/user/index.ts': "export * from './model/types';\n",
+      'src/features/auth/model/login.ts': "import type { User } from \"@/entities/user/model/types\"\nexport type Session = { user: User }\n",
+      'src/features/auth/index.ts': "export type { Session } from './model/login';\n",
+    });
+
+    expect(contents(result)).toEqual({
+      'src/features/auth/model/login.ts': 'import type { User } from "@/entities/user"\nexport type Session = { user: User }\n',
+    });
+  });
+
+  test('skips an import when the slice exports a different symbol of the same name', () => {
+    const result = plan({
+      'src/entities/user/model/types.ts': USER_TYPES,
+      'src/entities/user/ui/card.ts': 'export function format(cents: number) { return String(cents); }\n',
+      'src/entities/user/index.ts': "export { format } from './ui/card';\n",
+      'src/features/auth/model/login.ts': "import { format } from '@/entities/user/model/types';\nexport const login = format;\n",
+      'src/features/auth/index.ts': "export { login } from './model/login';\n",
+    });
+
+    expect(result.changes).toEqual([]);
+    expect(result.fixes).toEqual([]);
+    expect(result.skipped.map(({ violation, reason }) => [violation.file, violation.line, reason])).toEqual([
+      ['src/features/auth/model/login.ts', 1, 'slice exports a different `format`'],
+    ]);
+  });
+
+  test('skips default and namespace imports', () => {
+    const result = plan({
+      'src/entities/user/model/types.ts': 'export default 1;\n',
+      'src/entities/user/index.ts': 'export {};\n',
+      'src/features/auth/model/login.ts': "import * as types from '@/entities/user/model/types';\nexport const login = types;\n",
+      'src/features/auth/index.ts': "export { login } from './model/login';\n",
+    });
+
+    expect(result.changes).toEqual([]);
+    expect(result.skipped.map(({ reason }) => reason)).toEqual([
+      'only named imports can be rewritten (default / namespace imports need a manual export)',
+    ]);
+  });
+});
+
+describe('planFixes: missing Public API', () => {
+  test('creates index.ts re-exporting every segment in segment order', () => {
+    const result = plan({
+      'src/features/auth/ui/LoginForm.tsx': 'export function LoginForm() { return null; }\n',
+      'src/features/auth/model/index.ts': "export * from './session';\n",
+      'src/features/auth/model/session.ts': 'export const session = {};\n',
+      'src/features/auth/api/login.ts': 'export const login = () => {};\n',
+      'src/features/auth/ui/LoginForm.test.tsx': 'export {};\n',
+    });
+
+    expect(contents(result)).toEqual({
+      'src/features/auth/index.ts':
+        "export * from './model';\nexport * from './api/login';\nexport * from './ui/LoginForm';\n",
+    });
+    expect(result.fixes).toEqual([
+      {
+        kind: 'create-public-api',
+        file: 'src/features/auth/index.ts',
+        line: 0,
+        description: 'Create src/features/auth/index.ts',
+      },
+    ]);
+  });
+});
+
+describe('orderPublicApi', () => {
+  test('orders re-exports by segment, moving comments with their statement', () => {
+    const content = [
+      '// Public API of the user entity',
+      '',
+      "export { UserCard } from './ui/UserCard';",
+      '// Server state',
+      "export * from './api';",
+      "export type { User } from './model/types';",
+      '',
+    ].join('\n');
+
+    expect(orderPublicApi(content, PUBLIC_API_SEGMENT_ORDER)).toBe(
+      [
+        '// Public API of the user entity',
+        '',
+        "export type { User } from './model/types';",
+        '// Server state',
+        "export * from './api';",
+        "export { UserCard } from './ui/UserCard';",
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('returns null when the re-exports are already ordered', () => {
+    const content = "export * from './model';\nexport * from './api';\nexport * from './ui';\n";
+    expect(orderPublicApi(content, PUBLIC_API_SEGMENT_ORDER)).toBeNull();
+  });
+
+  test('leaves files with anything besides re-exports alone', () => {
+    const content = "export * from './ui';\nexport const VERSION = 1;\nexport * from './model';\n";
+    expect(orderPublicApi(content, PUBLIC_API_SEGMENT_ORDER)).toBeNull();
+  });
+
+  test('is applied to slice Public APIs by planFixes', () => {
+    const result = plan({
+      'src/entities/user/model/types.ts': 'export interface User { id: string }\n',
+      'src/entities/user/ui/UserCard.tsx': 'export function UserCard() { return null; }\n',
+      'src/entities/user/index.ts': "export * from './ui/UserCard';\nexport * from './model/types';\n",
+    });
+
+    expect(contents(result)).toEqual({
+      'src/entities/user/index.ts': "export * from './model/types';\nexport * from './ui/UserCard';\n",
+    });
+    expect(result.fixes.map((fix) => fix.kind)).toEqual(['order-public-api']);
+  });
+});
+
+describe('formatFixDiff', () => {
+  test('previews every change as a unified diff', () => {
+    const result = plan({
+      'src/entities/user/model/types.ts': USER_TYPES,
+      'src/entities/user/index.ts': 'export {};\n',
+      'src/features/auth/model/login.ts': "import { format } from '@/entities/user/model/types';\nexport const login = format;\n",
+      'src/features/auth/index.ts': "export { login } from './model/login';\n",
+    });
+
+    expect(formatFixDiff(result)).toBe(
+      [
+        '--- a/src/entities/user/index.ts',
+        '+++ b/src/entities/user/index.ts',
+        '@@ -1 +1 @@',
+        '-export {};',
+        "+export { format } from './model/types';",
+        '--- a/src/features/auth/model/login.ts',
+        '+++ b/src/features/auth/model/login.ts',
+        '@@ -1,2 +1,2 @@',
+        "-import { format } from '@/entities/user/model/types';",
+        "+import { format } from '@/entities/user';",
+        ' export const login = format;',
+        '',
+      ].join('\n')
+    );
+  });
+});
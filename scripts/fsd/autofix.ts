@@ -0,0 +1,481 @@
+// ============================================================================
+// FSD Auto-fix
+// ============================================================================
+// Plans source changes for the mechanical Public API violations:
+//   - public-api-import   rewrite a deep import (`@/entities/user/model/types`)
+//                         to the slice root and export the imported names
+//                         from the slice's index.ts when it does not yet
+//   - create-public-api   create the missing index.ts of a slice
+//   - order-public-api    order the re-exports of a slice's index.ts by segment
+//
+// Planning never touches the disk: `formatFixDiff` previews the plan as a
+// unified diff (dry run) and `applyFixes` writes it.
+// ============================================================================
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { posix } from 'node:path';
+import { unifiedDiff } from './diff.ts';
+import { blankComments, parseImports, type ImportReference } from './imports.ts';
+import { locate, resolveSpecifier, UNSLICED_LAYERS, type FsdLocation } from './layout.ts';
+import { findProjectFile, type ProjectFile } from './project.ts';
+import {
+  collectExports,
+  findExportOrigin,
+  formatReExport,
+  parseReExports,
+  parseSpecifiers,
+  parseStarExports,
+  type SourceFile,
+} from './public-api.ts';
+import type { DependencyRules } from './rules.ts';
+import { isInScope, publicApiSpecifier, type Violation } from './validator.ts';
+
+/**
+ * Segments in the order their re-exports appear in a Public API (types
+ * first, as in the entity template); other segments follow in config order
+ */
+export const PUBLIC_API_SEGMENT_ORDER = ['model', 'api', 'ui', 'lib', 'config'];
+
+/**
+ * Kind of automatic fix
+ */
+export type FixKind = 'public-api-import' | 'create-public-api' | 'order-public-api';
+
+/**
+ * New content of one file
+ */
+export interface FileChange {
+  path: string;
+  /** Content before the fixes (`null` for a created file) */
+  before: string | null;
+  after: string;
+}
+
+/**
+ * A fix included in the plan
+ */
+export interface PlannedFix {
+  kind: FixKind;
+  /** File the fix was reported for */
+  file: string;
+  /** 1-based line (0 for file-level fixes) */
+  line: number;
+  description: string;
+}
+
+/**
+ * A violation the engine cannot fix automatically
+ */
+export interface SkippedFix {
+  violation: Violation;
+  reason: string;
+}
+
+/**
+ * Changes and fixes planned for a project
+ */
+export interface FixPlan {
+  changes: FileChange[];
+  fixes: PlannedFix[];
+  skipped: SkippedFix[];
+}
+
+/**
+ * Options for planning fixes
+ */
+export interface FixOptions {
+  srcDir: string;
+  /** Only order the Public APIs of slices in this scope (e.g. 'entities/user') */
+  scope?: string;
+}
+
+/**
+ * Plan fixes for the given violations
+ *
+ * Only `public-api-violation` and `missing-public-api` are fixable; other
+ * rules need a design decision and are ignored here.
+ *
+ * @example
+ * ```typescript
+ * const plan = planFixes(files, violations, rules, { srcDir: 'src' });
+ * console.log(formatFixDiff(plan)); // dry run
+ * await applyFixes(plan, root);
+ * ```
+ */
+export function planFixes(
+  files: ProjectFile[],
+  violations: Violation[],
+  rules: DependencyRules,
+  options: FixOptions
+): FixPlan {
+  const workspace = new Workspace(files);
+  const fixes: PlannedFix[] = [];
+  const skipped: SkippedFix[] = [];
+
+  for (const violation of violations.filter((item) => item.rule === 'missing-public-api')) {
+    const content = buildPublicApi(violation.file, workspace, rules, options.srcDir);
+    const indexPath = posix.join(violation.file, 'index.ts');
+    workspace.write(indexPath, content);
+    fixes.push({
+      kind: 'create-public-api',
+      file: indexPath,
+      line: 0,
+      description: `Create ${indexPath}`,
+    });
+  }
+
+  // Bottom-up per file, so earlier rewrites never shift later positions
+  const deepImports = violations
+    .filter((item) => item.rule === 'public-api-violation')
+    .sort((a, b) => a.file.localeCompare(b.file) || b.line - a.line || b.column - a.column);
+
+  for (const violation of deepImports) {
+    const result = fixDeepImport(violation, workspace, rules, options.srcDir);
+    if (typeof result === 'string') {
+      skipped.push({ violation, reason: result });
+    } else {
+      fixes.push(result);
+    }
+  }
+
+  for (const indexPath of workspace.paths()) {
+    const location = locate(indexPath, options.srcDir, rules);
+    if (!location || !isSlicePublicApi(location, indexPath, rules)) continue;
+    if (!isInScope(location, options.scope)) continue;
+
+    const ordered = orderPublicApi(workspace.read(indexPath)!, segmentOrder(rules));
+    if (ordered === null) continue;
+
+    workspace.write(indexPath, ordered);
+    fixes.push({
+      kind: 'order-public-api',
+      file: indexPath,
+      line: 0,
+      description: `Order re-exports of ${indexPath} by segment`,
+    });
+  }
+
+  return { changes: workspace.changes(), fixes, skipped };
+}
+
+/**
+ * Preview a plan as a unified diff
+ */
+export function formatFixDiff(plan: FixPlan): string {
+  return plan.changes.map((change) => unifiedDiff(change.path, change.before, change.after)).join('');
+}
+
+/**
+ * Write the planned changes below the project root
+ *
+ * @returns Absolute paths of the written files
+ */
+export async function applyFixes(plan: FixPlan, root: string): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const change of plan.changes) {
+    const target = posix.join(root, change.path);
+    await mkdir(posix.dirname(target), { recursive: true });
+    await writeFile(target, change.after);
+    written.push(target);
+  }
+
+  return written;
+}
+
+/**
+ * Order the re-exports of a Public API by segment
+ *
+ * Comments directly above a statement move with it; a leading comment block
+ * separated by a blank line stays on top. Files holding anything besides
+ * re-exports and comments are left alone.
+ *
+ * @returns The reordered content, or `null` when nothing changes
+ */
+export function orderPublicApi(content: string, order: string[]): string | null {
+  const statements = [...parseReExports(content), ...parseStarExports(content)]
+    .map(({ statement, start }) => ({ statement, start, source: sourceOf(statement) }))
+    .sort((a, b) => a.start - b.start);
+  if (statements.length < 2) return null;
+
+  // Anything but re-exports and comments (declarations, imports) → leave as is
+  let rest = blankComments(content);
+  for (const { statement, start } of statements) {
+    rest = rest.slice(0, start) + ' '.repeat(statement.length) + rest.slice(start + statement.length);
+  }
+  if (rest.trim().length > 0) return null;
+
+  let header = '';
+  let cursor = 0;
+  const blocks = statements.map(({ statement, start, source }, index) => {
+    let leading = content.slice(cursor, start).trim();
+    if (index === 0) {
+      const separator = [...content.slice(0, start).matchAll(/\n[ \t]*\n/g)].pop()?.index ?? -1;
+      header = separator >= 0 ? content.slice(0, separator).trim() : '';
+      leading = separator >= 0 ? content.slice(separator, start).trim() : leading;
+    }
+    cursor = start + statement.length;
+    return { text: leading ? `${leading}\n${statement}` : statement, rank: segmentRank(source, order), index };
+  });
+
+  const sorted = [...blocks].sort((a, b) => a.rank - b.rank || a.index - b.index);
+  if (sorted.every((block, index) => block.index === index)) return null;
+
+  const trailing = content.slice(cursor).trim();
+  return [header, sorted.map((block) => block.text).join('\n'), trailing]
+    .filter(Boolean)
+    .join('\n\n')
+    .concat('\n');
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Copy-on-write view of the project files
+ */
+class Workspace {
+  private original = new Map<string, string>();
+  private current = new Map<string, string>();
+
+  constructor(files: ProjectFile[]) {
+    for (const file of files) {
+      this.original.set(file.path, file.content);
+      this.current.set(file.path, file.content);
+    }
+  }
+
+  read(path: string): string | undefined {
+    return this.current.get(path);
+  }
+
+  write(path: string, content: string) {
+    this.current.set(path, content);
+  }
+
+  paths(): string[] {
+    return [...this.current.keys()].sort();
+  }
+
+  sourceFiles(): SourceFile[] {
+    return [...this.current].map(([path, content]) => ({ path, content }));
+  }
+
+  /** Minimal ProjectFile map for resolving specifiers */
+  fileMap(): Map<string, ProjectFile> {
+    return new Map(
+      [...this.current].map(([path, content]) => [path, { path, content, imports: [] }])
+    );
+  }
+
+  changes(): FileChange[] {
+    return this.paths()
+      .filter((path) => this.original.get(path) !== this.current.get(path))
+      .map((path) => ({ path, before: this.original.get(path) ?? null, after: this.current.get(path)! }));
+  }
+}
+
+function fixDeepImport(
+  violation: Violation,
+  workspace: Workspace,
+  rules: DependencyRules,
+  srcDir: string
+): PlannedFix | string {
+  const content = workspace.read(violation.file);
+  if (content === undefined) return 'file not found';
+
+  const reference = findReference(content, violation);
+  if (!reference) return 'import statement not found';
+  if (reference.kind === 'dynamic') return 'dynamic imports are not rewritten';
+  if (!reference.clause?.startsWith('{')) {
+    return 'only named imports can be rewritten (default / namespace imports need a manual export)';
+  }
+
+  const filesByPath = workspace.fileMap();
+  const targetPath = resolveSpecifier(reference.specifier, violation.file, rules);
+  const target = targetPath ? findProjectFile(targetPath, filesByPath) : undefined;
+  const to = target ? locate(target.path, srcDir, rules) : null;
+  if (!target || !to?.slice) return `cannot resolve ${reference.specifier}`;
+
+  const sliceDir = posix.join(srcDir, to.layer, to.slice);
+  const indexPath = rules.rules.publicApiFiles
+    .map((name) => posix.join(sliceDir, name))
+    .find((path) => workspace.read(path) !== undefined);
+  if (!indexPath) return `${sliceDir} has no Public API`;
+
+  const specifiers = parseSpecifiers(reference.clause.replace(/^\{|\}$/g, ''), reference.typeOnly);
+  const files = workspace.sourceFiles();
+  const exportsByPath = collectExports(files);
+  const targetExports = exportsByPath.get(target.path) ?? new Set<string>();
+  const indexExports = exportsByPath.get(indexPath) ?? new Set<string>();
+
+  const notExported = specifiers.filter((specifier) => !targetExports.has(specifier.local));
+  if (notExported.length > 0) {
+    return `${target.path} does not export ${notExported.map((specifier) => specifier.local).join(', ')}`;
+  }
+
+  // A name the slice already exports must come from the same file, or the
+  // rewritten import would silently bind to a different symbol
+  const conflicting = specifiers.filter(
+    (specifier) =>
+      indexExports.has(specifier.local) &&
+      findExportOrigin(files, indexPath, specifier.local) !== findExportOrigin(files, target.path, specifier.local)
+  );
+  if (conflicting.length > 0) {
+    return `slice exports a different ${conflicting.map((specifier) => `\`${specifier.local}\``).join(', ')}`;
+  }
+
+  const missing = specifiers.filter((specifier) => !indexExports.has(specifier.local));
+  if (missing.length > 0) {
+    workspace.write(indexPath, addReExport(workspace.read(indexPath)!, indexPath, target.path, missing));
+  }
+
+  const replacement = publicApiImportPath(violation.file, to, srcDir, rules);
+  workspace.write(violation.file, replaceSpecifier(content, reference, replacement));
+
+  return {
+    kind: 'public-api-import',
+    file: violation.file,
+    line: violation.line,
+    description:
+      `'${reference.specifier}' → '${replacement}'` +
+      (missing.length > 0
+        ? ` (exported ${missing.map((specifier) => specifier.local).join(', ')} from ${indexPath})`
+        : ''),
+  };
+}
+
+function findReference(content: string, violation: Violation): (ImportReference & { offset: number }) | null {
+  const lines = content.split('\n');
+  const offset =
+    lines.slice(0, violation.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + violation.column - 1;
+
+  // Re-parse, since earlier fixes may have rewritten this file
+  const reference = parseImports(content).find(
+    (item) => item.line === violation.line && item.column === violation.column && item.specifier === violation.specifier
+  );
+  return reference ? { ...reference, offset } : null;
+}
+
+function replaceSpecifier(content: string, reference: ImportReference & { offset: number }, replacement: string) {
+  const pattern = new RegExp(`(['"])${escapeRegExp(reference.specifier)}\\1`, 'g');
+  pattern.lastIndex = reference.offset;
+  const match = pattern.exec(content);
+  if (!match) return content;
+
+  const quote = match[1];
+  return content.slice(0, match.index) + `${quote}${replacement}${quote}` + content.slice(match.index + match[0].length);
+}
+
+/**
+ * Append (or merge into an existing statement) a named re-export of `targetPath`
+ */
+function addReExport(
+  content: string,
+  indexPath: string,
+  targetPath: string,
+  specifiers: ReturnType<typeof parseSpecifiers>
+): string {
+  const source = moduleSpecifier(indexPath, targetPath);
+  const typeOnly = specifiers.every((specifier) => specifier.typeOnly);
+  const names = specifiers.map((specifier) => (!typeOnly && specifier.typeOnly ? `type ${specifier.local}` : specifier.local));
+
+  const existing = parseReExports(content).find(
+    (reExport) => reExport.source === source && reExport.typeOnly === typeOnly
+  );
+  if (existing) {
+    const current = existing.specifiers.map((specifier) =>
+      [
+        !existing.typeOnly && specifier.typeOnly ? 'type ' : '',
+        specifier.local,
+        specifier.local === specifier.name ? '' : ` as ${specifier.name}`,
+      ].join('')
+    );
+    return content.replace(existing.statement, formatReExport([...current, ...names], source, typeOnly));
+  }
+
+  const statement = formatReExport(names, source, typeOnly);
+  const body = content.replace(/^\s*export\s*\{\s*\};?\s*$/m, '').trimEnd();
+  return body.length > 0 ? `${body}\n${statement}\n` : `${statement}\n`;
+}
+
+/**
+ * Content of a created Public API: re-export every segment (its barrel when
+ * it has one, otherwise each of its files)
+ */
+function buildPublicApi(sliceDir: string, workspace: Workspace, rules: DependencyRules, srcDir: string): string {
+  const sources = new Set<string>();
+
+  for (const path of workspace.paths()) {
+    if (!path.startsWith(`${sliceDir}/`) || /\.(?:test|spec|stories)\.[jt]sx?$/.test(path)) continue;
+
+    const location = locate(path, srcDir, rules);
+    if (!location?.segment || location.segment.includes('.')) continue;
+
+    const hasBarrel = rules.rules.publicApiFiles.some(
+      (name) => workspace.read(posix.join(sliceDir, location.segment!, name)) !== undefined
+    );
+    sources.add(hasBarrel ? `./${location.segment}` : moduleSpecifier(posix.join(sliceDir, 'index.ts'), path));
+  }
+
+  const order = segmentOrder(rules);
+  const statements = [...sources]
+    .sort((a, b) => segmentRank(a, order) - segmentRank(b, order) || a.localeCompare(b))
+    .map((source) => `export * from '${source}';`);
+
+  return statements.length > 0 ? `${statements.join('\n')}\n` : 'export {};\n';
+}
+
+/**
+ * Specifier the importing file should use for a slice's Public API:
+ * the path alias when one covers the layer, otherwise a relative path
+ */
+function publicApiImportPath(fromFile: string, to: FsdLocation, srcDir: string, rules: DependencyRules): string {
+  const specifier = publicApiSpecifier(to, srcDir, rules);
+  if (!specifier.startsWith(`${srcDir}/`)) return specifier;
+
+  const relative = posix.relative(posix.dirname(fromFile), specifier);
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Relative module specifier from a barrel to a file (no extension, no `/index`)
+ */
+function moduleSpecifier(fromPath: string, targetPath: string): string {
+  const relative = posix
+    .relative(posix.dirname(fromPath), targetPath)
+    .replace(/\.[jt]sx?$/, '')
+    .replace(/\/index$/, '');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+function isSlicePublicApi(location: FsdLocation, path: string, rules: DependencyRules): boolean {
+  return (
+    !UNSLICED_LAYERS.includes(location.layer) &&
+    location.slice !== undefined &&
+    location.segment === undefined &&
+    rules.rules.publicApiFiles.includes(posix.basename(path))
+  );
+}
+
+function segmentOrder(rules: DependencyRules): string[] {
+  return [
+    ...PUBLIC_API_SEGMENT_ORDER,
+    ...Object.keys(rules.segments).filter((segment) => !PUBLIC_API_SEGMENT_ORDER.includes(segment)),
+  ];
+}
+
+function segmentRank(source: string, order: string[]): number {
+  const segment = source.replace(/^\.\//, '').split('/')[0];
+  const rank = order.indexOf(segment);
+  return rank >= 0 ? rank : order.length;
+}
+
+function sourceOf(statement: string): string {
+  return /from\s*['"]([^'"]+)['"]/.exec(statement)?.[1] ?? '';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
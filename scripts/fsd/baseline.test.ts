@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { baselineEntryFile, isEntryInScope, type BaselineEntry } from './baseline.ts';
+import { loadFsdConfig } from './config.ts';
+
+const { rules } = await loadFsdConfig({ root: import.meta.dir });
+
+const sliceCycle: BaselineEntry = {
+  rule: 'circular-dependency',
+  file: 'features/auth',
+  specifier: 'features/auth -> features/session -> features/auth',
+  count: 1,
+};
+const fileCycle: BaselineEntry = {
+  rule: 'circular-dependency',
+  file: 'src/entities/order/model/line.ts',
+  specifier: 'src/entities/order/model/line.ts -> src/entities/order/model/order.ts -> src/entities/order/model/line.ts',
+  count: 1,
+};
+const deepImport: BaselineEntry = {
+  rule: 'public-api-violation',
+  file: 'src/features/auth/model/login.ts',
+  specifier: '@/entities/user/model/types',
+  count: 2,
+};
+
+describe('baselineEntryFile', () => {
+  test.each([
+    ['slice cycle', sliceCycle, undefined],
+    ['file cycle', fileCycle, 'src/entities/order/model/line.ts'],
+    ['import violation', deepImport, 'src/features/auth/model/login.ts'],
+  ] as const)('%s', (_name, entry, expected) => {
+    expect(baselineEntryFile(entry)).toBe(expected);
+  });
+});
+
+describe('isEntryInScope', () => {
+  test.each([
+    ['no scope', sliceCycle, undefined, true],
+    ['slice cycle, first node', sliceCycle, 'features/auth', true],
+    ['slice cycle, later node', sliceCycle, 'features/session', true],
+    ['slice cycle, other slice', sliceCycle, 'features/cart', false],
+    ['file cycle', fileCycle, 'entities/order', true],
+    ['file cycle, other layer', fileCycle, 'features', false],
+    ['import violation', deepImport, 'features', true],
+    ['import violation, other slice', deepImport, 'features/cart', false],
+  ] as const)('%s', (_name, entry, scope, expected) => {
+    expect(isEntryInScope(entry, scope, 'src', rules)).toBe(expected);
+  });
+});
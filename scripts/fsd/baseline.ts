@@ -0,0 +1,234 @@
+// ============================================================================
+// Violation Baseline
+// ============================================================================
+// Records the violations a project already has (`.fsd-baseline.json`) so a
+// legacy codebase can adopt /fsd-validate gradually: later runs report only
+// new violations, and entries that no longer occur are flagged for removal.
+//
+// Entries are keyed by rule + file + import specifier (not by line), so
+// unrelated edits that move an import do not resurface it. Circular
+// dependencies are keyed by their chain instead, since the import reported
+// for a cycle (its cheapest edge) changes as edges are added or removed.
+// ============================================================================
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { posix } from 'node:path';
+import { locate } from './layout.ts';
+import type { DependencyRules } from './rules.ts';
+import { isInScope, type Violation } from './validator.ts';
+
+/**
+ * Default baseline file name (project root)
+ */
+export const BASELINE_FILE = '.fsd-baseline.json';
+
+/**
+ * One known violation (or several identical ones, see `count`)
+ */
+export interface BaselineEntry {
+  rule: string;
+  /** Violation file (first node of the chain for circular dependencies: a file, or a slice id such as 'features/auth') */
+  file: string;
+  /** Import specifier ('' for file- and directory-level violations; the chain for circular dependencies) */
+  specifier: string;
+  /** Number of identical violations (same rule, file and specifier) */
+  count: number;
+}
+
+/**
+ * Contents of `.fsd-baseline.json`
+ */
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Violations split against a baseline
+ */
+export interface BaselineComparison {
+  /** Violations not covered by the baseline */
+  newViolations: Violation[];
+  /** Violations hidden because the baseline knows them */
+  baselined: Violation[];
+  /** Entries (or parts of their `count`) that no longer occur */
+  fixed: BaselineEntry[];
+}
+
+/**
+ * Thrown when a baseline file cannot be read
+ */
+export class InvalidBaselineError extends Error {
+  constructor(public path: string, reason: string) {
+    super(`Invalid baseline ${path}: ${reason}`);
+    this.name = 'InvalidBaselineError';
+  }
+}
+
+/**
+ * Create a baseline from the current violations
+ */
+export function createBaseline(violations: Violation[]): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const violation of violations) {
+    const identity = identify(violation);
+    const key = baselineKey(identity);
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      entries.set(key, { ...identity, count: 1 });
+    }
+  }
+
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    entries: [...entries.values()].sort(
+      (a, b) => a.file.localeCompare(b.file) || a.rule.localeCompare(b.rule) || a.specifier.localeCompare(b.specifier)
+    ),
+  };
+}
+
+/**
+ * Split violations into new and baselined ones, and find fixed entries
+ *
+ * @param isRelevant - Entries outside the validated scope are never reported as fixed
+ *
+ * @example
+ * ```typescript
+ * const { newViolations, fixed } = compareWithBaseline(violations, baseline);
+ * ```
+ */
+export function compareWithBaseline(
+  violations: Violation[],
+  baseline: Baseline,
+  isRelevant: (entry: BaselineEntry) => boolean = () => true
+): BaselineComparison {
+  const remaining = new Map(baseline.entries.map((entry) => [baselineKey(entry), entry.count]));
+  const newViolations: Violation[] = [];
+  const baselined: Violation[] = [];
+
+  for (const violation of violations) {
+    const key = baselineKey(identify(violation));
+    const budget = remaining.get(key) ?? 0;
+    if (budget > 0) {
+      remaining.set(key, budget - 1);
+      baselined.push(violation);
+    } else {
+      newViolations.push(violation);
+    }
+  }
+
+  const fixed = baseline.entries
+    .filter(isRelevant)
+    .map((entry) => ({ ...entry, count: remaining.get(baselineKey(entry)) ?? 0 }))
+    .filter((entry) => entry.count > 0);
+
+  return { newViolations, baselined, fixed };
+}
+
+/**
+ * Whether an entry lies in a `layer` or `layer/slice` scope (no scope =
+ * everything). A circular dependency is in scope when one of its chain nodes
+ * is, like the cycles the validator reports for a scope.
+ *
+ * @example
+ * ```typescript
+ * compareWithBaseline(violations, baseline, (entry) => isEntryInScope(entry, 'features/auth', 'src', rules));
+ * ```
+ */
+export function isEntryInScope(
+  entry: BaselineEntry,
+  scope: string | undefined,
+  srcDir: string,
+  rules: DependencyRules
+): boolean {
+  if (!scope) return true;
+
+  const nodes = entry.rule === 'circular-dependency' ? entry.specifier.split(' -> ') : [entry.file];
+  return nodes.some((node) => {
+    // File nodes are project paths, slice nodes are 'layer/slice' ids
+    const location = locate(node, srcDir, rules) ?? locate(posix.join(srcDir, node), srcDir, rules);
+    return location !== null && isInScope(location, scope);
+  });
+}
+
+/**
+ * Project file an entry points at, for reports. A circular dependency
+ * between slices has none: its `file` is a slice id ('features/auth').
+ */
+export function baselineEntryFile(entry: BaselineEntry): string | undefined {
+  return entry.rule !== 'circular-dependency' || /\.[jt]sx?$/.test(entry.file) ? entry.file : undefined;
+}
+
+/**
+ * Read a baseline file
+ *
+ * @returns `null` when the file does not exist
+ * @throws {InvalidBaselineError} When the file is not a valid baseline
+ */
+export async function loadBaseline(path: string): Promise<Baseline | null> {
+  let source: string;
+  try {
+    source = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  let baseline: Partial<Baseline>;
+  try {
+    baseline = JSON.parse(source);
+  } catch (error) {
+    throw new InvalidBaselineError(path, (error as Error).message);
+  }
+
+  if (baseline.version !== 1 || !Array.isArray(baseline.entries)) {
+    throw new InvalidBaselineError(path, 'expected { "version": 1, "entries": [...] }');
+  }
+  const invalid = baseline.entries.findIndex(
+    (entry) =>
+      typeof entry?.rule !== 'string' ||
+      typeof entry.file !== 'string' ||
+      typeof entry.specifier !== 'string' ||
+      !(Number.isInteger(entry.count) && entry.count > 0)
+  );
+  if (invalid >= 0) {
+    throw new InvalidBaselineError(path, `entries[${invalid}] needs rule, file, specifier and a positive count`);
+  }
+
+  return baseline as Baseline;
+}
+
+/**
+ * Write a baseline file (stable order, trailing newline — friendly to diffs)
+ */
+export async function saveBaseline(path: string, baseline: Baseline): Promise<void> {
+  await writeFile(path, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Baseline identity of a violation; cycles are rotated to start at their
+ * alphabetically first node so the same cycle always yields the same chain
+ */
+function identify(violation: Violation): Pick<BaselineEntry, 'rule' | 'file' | 'specifier'> {
+  if (!violation.cycle) {
+    return { rule: violation.rule, file: violation.file, specifier: violation.specifier };
+  }
+
+  const nodes = violation.cycle.slice(0, -1);
+  const start = nodes.indexOf([...nodes].sort()[0]);
+  const rotated = [...nodes.slice(start), ...nodes.slice(0, start), nodes[start]];
+  return { rule: violation.rule, file: rotated[0], specifier: rotated.join(' -> ') };
+}
+
+function baselineKey(item: Pick<BaselineEntry, 'rule' | 'file' | 'specifier'>): string {
+  return JSON.stringify([item.rule, item.file, item.specifier]);
+}
@@ -0,0 +1,406 @@
+// ============================================================================
+// FSD Config Loader
+// ============================================================================
+// Single entry point for the FSD configuration used by every analyzer:
+//
+//   bundled dependency-rules.json  ←  extends (in order)  ←  .fsdrc.json
+//
+// Objects merge key by key (a layer override only needs the fields it
+// changes); arrays replace. `/fsd-init`'s short form — `layers` / `segments`
+// as name lists — selects from the inherited definitions instead.
+//
+// A custom layer only needs a `level`: it defaults to importing every lower
+// layer, higher layers that keep their inherited `canImportFrom` may import
+// it, and it gets a path alias following the existing ones.
+//
+// The merged result is validated with Zod, plus cross-field checks that
+// name the exact offending entry (unknown layers, upward `canImportFrom`).
+// ============================================================================
+
+import { access, readFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, posix, relative, resolve } from 'node:path';
+import { z } from 'zod';
+import {
+  DEFAULT_RULES_PATH,
+  DependencyRulesSchema,
+  LayerRuleSchema,
+  RuleFlagsSchema,
+  SegmentRuleSchema,
+  ValidationFlagsSchema,
+  type DependencyRules,
+  type LayerRule,
+} from './rules.ts';
+
+/**
+ * Project config file name (project root)
+ */
+export const CONFIG_FILE = '.fsdrc.json';
+
+/**
+ * Shape of `.fsdrc.json` — every field optional
+ */
+export const ProjectConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    /** Config file(s) to inherit from, relative to this file */
+    extends: z.union([z.string(), z.array(z.string())]).optional(),
+    version: z.string().optional(),
+    description: z.string().optional(),
+    /** Layer overrides, or the names of the inherited layers to keep */
+    layers: z.union([z.array(z.string()), z.record(z.string(), LayerRuleSchema.partial())]).optional(),
+    /** Segment overrides, or the names of the inherited segments to keep */
+    segments: z.union([z.array(z.string()), z.record(z.string(), SegmentRuleSchema.partial())]).optional(),
+    rules: RuleFlagsSchema.partial().optional(),
+    validation: ValidationFlagsSchema.partial().optional(),
+    pathAliases: z.record(z.string(), z.string()).optional(),
+    ignorePatterns: z.array(z.string()).optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+/**
+ * One problem in a config file
+ */
+export interface ConfigIssue {
+  /** Config file the problem was found in (or the merged result of) */
+  file: string;
+  /** Dotted path of the offending entry (e.g. 'layers.features.canImportFrom[1]') */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a config file cannot be read or does not validate
+ */
+export class ConfigError extends Error {
+  constructor(public issues: ConfigIssue[]) {
+    super(
+      `Invalid FSD config:\n${issues
+        .map((issue) => `  - ${issue.file}${issue.path ? ` › ${issue.path}` : ''}: ${issue.message}`)
+        .join('\n')}`
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Options for loading the config
+ */
+export interface LoadConfigOptions {
+  /** Project root holding `.fsdrc.json` (default: current directory) */
+  root?: string;
+  /** Explicit config file; must exist (default: `<root>/.fsdrc.json` when present) */
+  configPath?: string;
+}
+
+/**
+ * Resolved config and the files it was built from
+ */
+export interface LoadedConfig {
+  rules: DependencyRules;
+  /** Applied files in order, starting with the bundled defaults */
+  files: string[];
+}
+
+/**
+ * Load the FSD config of a project
+ *
+ * @throws {ConfigError} With one issue per offending entry
+ *
+ * @example
+ * ```typescript
+ * const { rules } = await loadFsdConfig({ root: process.cwd() });
+ * rules.layers.features.canImportFrom; // ['entities', 'shared']
+ * ```
+ */
+export async function loadFsdConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+  const root = options.root ?? process.cwd();
+  const defaults = await readJson(DEFAULT_RULES_PATH);
+  const parsedDefaults = DependencyRulesSchema.safeParse(defaults);
+  if (!parsedDefaults.success) {
+    throw new ConfigError(toIssues(DEFAULT_RULES_PATH, parsedDefaults.error));
+  }
+
+  const configPath = options.configPath ? resolve(root, options.configPath) : join(root, CONFIG_FILE);
+  if (!options.configPath && !(await exists(configPath))) {
+    return { rules: checkConfig(parsedDefaults.data, DEFAULT_RULES_PATH), files: [DEFAULT_RULES_PATH] };
+  }
+
+  const files = [DEFAULT_RULES_PATH];
+  const merged = await applyConfigFile(parsedDefaults.data, configPath, files, []);
+  const parsed = DependencyRulesSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new ConfigError(toIssues(displayPath(configPath), parsed.error));
+  }
+
+  return { rules: checkConfig(parsed.data, displayPath(configPath)), files };
+}
+
+/**
+ * Merge a project config over a base config (no validation)
+ */
+export function mergeConfig(base: DependencyRules, override: ProjectConfig, file = CONFIG_FILE): DependencyRules {
+  const issues: ConfigIssue[] = [];
+  const merged: DependencyRules = {
+    ...base,
+    ...(override.version !== undefined && { version: override.version }),
+    ...(override.description !== undefined && { description: override.description }),
+    layers: mergeDefinitions(base.layers, override.layers, 'layers', file, issues) as DependencyRules['layers'],
+    segments: mergeDefinitions(base.segments, override.segments, 'segments', file, issues) as DependencyRules['segments'],
+    rules: { ...base.rules, ...override.rules },
+    validation: { ...base.validation, ...override.validation },
+    pathAliases: { ...base.pathAliases, ...override.pathAliases },
+    ignorePatterns: override.ignorePatterns ?? base.ignorePatterns,
+  };
+
+  if (issues.length > 0) throw new ConfigError(issues);
+
+  // Selecting layers by name drops the others; forget imports of dropped layers
+  if (Array.isArray(override.layers)) {
+    for (const layer of Object.values(merged.layers)) {
+      layer.canImportFrom = layer.canImportFrom.filter((name) => name in merged.layers);
+    }
+  } else if (override.layers) {
+    for (const name of Object.keys(override.layers).filter((name) => !(name in base.layers))) {
+      addCustomLayer(merged, name, override.layers);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Cross-field checks the schema cannot express
+ *
+ * @throws {ConfigError}
+ */
+export function checkConfig(rules: DependencyRules, file: string): DependencyRules {
+  const issues: ConfigIssue[] = [];
+  const names = Object.keys(rules.layers);
+  const report = (path: string, message: string) => issues.push({ file, path, message });
+
+  for (const [name, layer] of Object.entries(rules.layers)) {
+    layer.canImportFrom.forEach((target, index) => {
+      const path = `layers.${name}.canImportFrom[${index}]`;
+      const targetLayer = rules.layers[target];
+
+      if (!targetLayer) {
+        const suggestion = closest(target, names);
+        report(
+          path,
+          `Unknown layer "${target}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}; known layers: ${names.join(', ')}`
+        );
+      } else if (target === name) {
+        report(path, `Layer "${name}" lists itself; imports inside a layer need no entry`);
+      } else if (targetLayer.level >= layer.level) {
+        report(
+          path,
+          `"${name}" (level ${layer.level}) cannot import from "${target}" (level ${targetLayer.level}); only lower layers are allowed`
+        );
+      }
+    });
+  }
+
+  const byLevel = new Map<number, string>();
+  for (const [name, layer] of Object.entries(rules.layers)) {
+    const other = byLevel.get(layer.level);
+    if (other) report(`layers.${name}.level`, `Level ${layer.level} is already used by "${other}"`);
+    byLevel.set(layer.level, name);
+  }
+
+  for (const [alias, target] of Object.entries(rules.pathAliases)) {
+    if (isAbsolute(target)) report(`pathAliases.${alias}`, 'Alias targets must be relative to the project root');
+  }
+
+  if (issues.length > 0) throw new ConfigError(issues);
+  return rules;
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+async function applyConfigFile(
+  base: DependencyRules,
+  path: string,
+  files: string[],
+  chain: string[]
+): Promise<DependencyRules> {
+  if (chain.includes(path)) {
+    throw new ConfigError([
+      {
+        file: displayPath(path),
+        path: 'extends',
+        message: `Circular extends: ${[...chain, path].map(displayPath).join(' -> ')}`,
+      },
+    ]);
+  }
+
+  const parsed = ProjectConfigSchema.safeParse(await readJson(path));
+  if (!parsed.success) throw new ConfigError(toIssues(displayPath(path), parsed.error));
+
+  const config = parsed.data;
+  const parents = config.extends === undefined ? [] : [config.extends].flat();
+  let current = base;
+  for (const parent of parents) {
+    if (!parent.startsWith('.') && !isAbsolute(parent)) {
+      throw new ConfigError([
+        { file: displayPath(path), path: 'extends', message: `"${parent}" must be a relative or absolute file path` },
+      ]);
+    }
+    current = await applyConfigFile(current, resolve(dirname(path), parent), files, [...chain, path]);
+  }
+
+  files.push(path);
+  return mergeConfig(current, config, displayPath(path));
+}
+
+function mergeDefinitions(
+  base: Record<string, object>,
+  override: string[] | Record<string, object> | undefined,
+  key: 'layers' | 'segments',
+  file: string,
+  issues: ConfigIssue[]
+): Record<string, object> {
+  if (override === undefined) return structuredClone(base);
+
+  if (Array.isArray(override)) {
+    const selected: Record<string, object> = {};
+    override.forEach((name, index) => {
+      if (name in base) {
+        selected[name] = structuredClone(base[name]);
+      } else {
+        const suggestion = closest(name, Object.keys(base));
+        issues.push({
+          file,
+          path: `${key}[${index}]`,
+          message: `Unknown ${key === 'layers' ? 'layer' : 'segment'} "${name}"${
+            suggestion ? ` (did you mean "${suggestion}"?)` : ''
+          }; declare it as an object to add a custom one`,
+        });
+      }
+    });
+    return selected;
+  }
+
+  const merged = structuredClone(base);
+  for (const [name, definition] of Object.entries(override)) {
+    merged[name] = { ...merged[name], ...definition };
+  }
+  return merged;
+}
+
+/**
+ * Slot a layer the override adds into the hierarchy by its level
+ */
+function addCustomLayer(
+  rules: DependencyRules,
+  name: string,
+  overrides: Record<string, Partial<LayerRule>>
+): void {
+  const layer = rules.layers[name] as Partial<LayerRule>;
+  const level = layer.level;
+  // Leave a missing or invalid level to the schema
+  if (typeof level !== 'number') return;
+
+  const byLevel = (a: string, b: string) => (rules.layers[b]?.level ?? 0) - (rules.layers[a]?.level ?? 0);
+  const others = Object.keys(rules.layers).filter((other) => other !== name);
+
+  layer.canImportFrom ??= others.filter((other) => rules.layers[other].level < level).sort(byLevel);
+
+  for (const other of others) {
+    const higher = rules.layers[other] as Partial<LayerRule>;
+    // Another custom layer without `canImportFrom` derives it on its own turn
+    if (!higher.canImportFrom || (higher.level ?? 0) <= level || overrides[other]?.canImportFrom !== undefined) continue;
+    if (!higher.canImportFrom.includes(name)) higher.canImportFrom = [...higher.canImportFrom, name].sort(byLevel);
+  }
+
+  const alias = layerAliasPattern(rules);
+  if (alias && !(`${alias.prefix}${name}` in rules.pathAliases)) {
+    rules.pathAliases[`${alias.prefix}${name}`] = posix.join(alias.dir, name);
+  }
+}
+
+/**
+ * Alias prefix and source directory shared by every layer alias
+ * (`@/` and `src` for `"@/entities": "src/entities"`), if there is one
+ */
+function layerAliasPattern(rules: DependencyRules): { prefix: string; dir: string } | null {
+  const patterns = Object.entries(rules.pathAliases).flatMap(([alias, target]) => {
+    const layer = posix.basename(posix.normalize(target));
+    if (!(layer in rules.layers) || !alias.endsWith(layer)) return [];
+    return [{ prefix: alias.slice(0, -layer.length), dir: posix.dirname(posix.normalize(target)) }];
+  });
+
+  const [first] = patterns;
+  const shared = patterns.every((pattern) => pattern.prefix === first?.prefix && pattern.dir === first.dir);
+  return first && shared ? first : null;
+}
+
+function toIssues(file: string, error: z.ZodError): ConfigIssue[] {
+  return error.issues.map((issue) => ({
+    file,
+    path: issue.path
+      .map((part, index) => (typeof part === 'number' ? `[${part}]` : `${index > 0 ? '.' : ''}${String(part)}`))
+      .join(''),
+    message: issue.message,
+  }));
+}
+
+async function readJson(path: string): Promise<unknown> {
+  let source: string;
+  try {
+    source = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError([{ file: displayPath(path), path: '', message: (error as Error).message }]);
+  }
+
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new ConfigError([{ file: displayPath(path), path: '', message: `Invalid JSON: ${(error as Error).message}` }]);
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function displayPath(path: string): string {
+  const fromCwd = relative(process.cwd(), path);
+  return fromCwd.startsWith('..') ? path : fromCwd || path;
+}
+
+/**
+ * Closest candidate within edit distance 2 (typo suggestions)
+ */
+function closest(name: string, candidates: string[]): string | undefined {
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance <= 2 && (!best || distance < best.distance)) best = { candidate, distance };
+  }
+  return best?.candidate;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,327 @@
+// ============================================================================
+// Dependency Graph
+// ============================================================================
+// Builds file-level and slice-level import graphs and finds circular
+// dependencies via strongly connected components (Tarjan's algorithm).
+//
+// Every cycle is reported as a readable chain together with the edge that is
+// cheapest to break — the one backed by the fewest import statements (ties go
+// to an edge importing a higher layer, which already breaks the layer order).
+//
+//   features/cart -> entities/product -> entities/cart -> features/cart
+//   cheapest: entities/cart -> features/cart (1 import)
+// ============================================================================
+
+import { posix } from 'node:path';
+import { locate, resolveSpecifier, UNSLICED_LAYERS, type FsdLocation } from './layout.ts';
+import { findProjectFile, type ProjectFile } from './project.ts';
+import type { DependencyRules } from './rules.ts';
+import { isSuppressed, parseSuppressions } from './suppressions.ts';
+
+/**
+ * One import statement backing an edge
+ */
+export interface EdgeImport {
+  file: string;
+  line: number;
+  column: number;
+  specifier: string;
+}
+
+/**
+ * Directed edge between two nodes, with the imports that create it
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  imports: EdgeImport[];
+}
+
+/**
+ * Directed graph keyed by node id
+ */
+export interface DependencyGraph {
+  nodes: string[];
+  /** from → to → edge */
+  edges: Map<string, Map<string, GraphEdge>>;
+}
+
+/**
+ * A circular dependency
+ */
+export interface Cycle {
+  level: 'slice' | 'file';
+  /** Nodes of the strongly connected component */
+  component: string[];
+  /** One shortest cycle through the component, first node repeated at the end */
+  path: string[];
+  /** Edges along `path` */
+  edges: GraphEdge[];
+  /** Edge of `path` backed by the fewest imports */
+  cheapestEdge: GraphEdge;
+}
+
+/**
+ * Options for building graphs
+ */
+export interface GraphOptions {
+  srcDir: string;
+  /** Count `import type` edges (default: true) */
+  includeTypeOnly?: boolean;
+}
+
+/**
+ * Build the file-level import graph (node id = project-relative file path)
+ *
+ * Imports suppressed for `circular-dependency` are left out.
+ */
+export function buildFileGraph(
+  files: ProjectFile[],
+  rules: DependencyRules,
+  options: GraphOptions
+): DependencyGraph {
+  const filesByPath = new Map(files.map((file) => [file.path, file]));
+  const graph = createGraph(files.map((file) => file.path));
+
+  for (const file of files) {
+    const suppressions = parseSuppressions(file.content);
+
+    for (const reference of file.imports) {
+      if (reference.typeOnly && options.includeTypeOnly === false) continue;
+      // `// fsd-ignore-next-line circular-dependency` takes the import out of the graph
+      if (isSuppressed(suppressions, reference.line, 'circular-dependency')) continue;
+
+      const targetPath = resolveSpecifier(reference.specifier, file.path, rules);
+      const target = targetPath ? findProjectFile(targetPath, filesByPath) : undefined;
+      if (!target || target.path === file.path) continue;
+
+      addEdge(graph, file.path, target.path, {
+        file: file.path,
+        line: reference.line,
+        column: reference.column,
+        specifier: reference.specifier,
+      });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Build the slice-level graph (node id = 'layer/slice', or 'layer/segment'
+ * for app and shared) from the file-level graph
+ */
+export function buildSliceGraph(
+  fileGraph: DependencyGraph,
+  rules: DependencyRules,
+  options: GraphOptions
+): DependencyGraph {
+  const nodeOf = (path: string) => {
+    const location = locate(path, options.srcDir, rules);
+    return location ? sliceNodeId(location) : null;
+  };
+
+  const graph = createGraph([]);
+  const nodes = new Set<string>();
+
+  for (const [from, targets] of fileGraph.edges) {
+    const fromNode = nodeOf(from);
+    if (!fromNode) continue;
+    nodes.add(fromNode);
+
+    for (const [to, edge] of targets) {
+      const toNode = nodeOf(to);
+      if (!toNode || toNode === fromNode) continue;
+      nodes.add(toNode);
+      edge.imports.forEach((edgeImport) => addEdge(graph, fromNode, toNode, edgeImport));
+    }
+  }
+
+  graph.nodes = [...nodes].sort();
+  return graph;
+}
+
+/**
+ * Node id of a location in the slice-level graph
+ */
+export function sliceNodeId(location: FsdLocation): string | null {
+  if (UNSLICED_LAYERS.includes(location.layer)) {
+    return location.segment ? `${location.layer}/${location.segment}` : location.layer;
+  }
+  return location.slice ? `${location.layer}/${location.slice}` : null;
+}
+
+/**
+ * Strongly connected components with more than one node (Tarjan, iterative)
+ */
+export function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of graph.nodes) {
+    if (index.has(root)) continue;
+
+    const work: Array<{ node: string; successors: string[]; next: number }> = [];
+    const enter = (node: string) => {
+      index.set(node, counter);
+      lowLink.set(node, counter);
+      counter += 1;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, successors: [...(graph.edges.get(node)?.keys() ?? [])].sort(), next: 0 });
+    };
+
+    enter(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+
+      if (frame.next < frame.successors.length) {
+        const successor = frame.successors[frame.next];
+        frame.next += 1;
+
+        if (!index.has(successor)) {
+          enter(successor);
+        } else if (onStack.has(successor)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(successor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowLink.set(parent.node, Math.min(lowLink.get(parent.node)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let node: string;
+        do {
+          node = stack.pop()!;
+          onStack.delete(node);
+          component.push(node);
+        } while (node !== frame.node);
+
+        if (component.length > 1) components.push(component.sort());
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Find one representative cycle per strongly connected component
+ *
+ * @param isUpward - Marks edges that break the layer order; preferred on ties
+ */
+export function findCycles(
+  graph: DependencyGraph,
+  level: Cycle['level'],
+  isUpward: (edge: GraphEdge) => boolean = () => false
+): Cycle[] {
+  return findStronglyConnectedComponents(graph).map((component) => {
+    const path = shortestCycle(graph, component);
+    const edges = path.slice(0, -1).map((from, position) => graph.edges.get(from)!.get(path[position + 1])!);
+    const cheapestEdge = edges.reduce((cheapest, edge) => {
+      const difference = edge.imports.length - cheapest.imports.length;
+      return difference < 0 || (difference === 0 && isUpward(edge) && !isUpward(cheapest)) ? edge : cheapest;
+    });
+
+    return { level, component, path, edges, cheapestEdge };
+  });
+}
+
+/**
+ * Slice-level cycles plus file-level cycles that stay inside one slice
+ * (file cycles across slices are already covered by the slice cycles)
+ */
+export function findCircularDependencies(
+  files: ProjectFile[],
+  rules: DependencyRules,
+  options: GraphOptions
+): Cycle[] {
+  const fileGraph = buildFileGraph(files, rules, options);
+  const sliceGraph = buildSliceGraph(fileGraph, rules, options);
+
+  const sliceOf = (path: string) => {
+    const location = locate(path, options.srcDir, rules);
+    return location ? sliceNodeId(location) ?? posix.dirname(path) : posix.dirname(path);
+  };
+  const fileCycles = findCycles(fileGraph, 'file').filter(
+    (cycle) => new Set(cycle.component.map(sliceOf)).size === 1
+  );
+
+  const levelOf = (node: string) => rules.layers[node.split('/')[0]]?.level ?? 0;
+  const isUpward = (edge: GraphEdge) => levelOf(edge.from) < levelOf(edge.to);
+
+  return [...findCycles(sliceGraph, 'slice', isUpward), ...fileCycles];
+}
+
+/**
+ * Format a cycle as `a -> b -> c -> a`
+ */
+export function formatCycle(cycle: Cycle): string {
+  return cycle.path.join(' -> ');
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function createGraph(nodes: string[]): DependencyGraph {
+  return { nodes, edges: new Map() };
+}
+
+function addEdge(graph: DependencyGraph, from: string, to: string, edgeImport: EdgeImport) {
+  let targets = graph.edges.get(from);
+  if (!targets) {
+    targets = new Map();
+    graph.edges.set(from, targets);
+  }
+
+  let edge = targets.get(to);
+  if (!edge) {
+    edge = { from, to, imports: [] };
+    targets.set(to, edge);
+  }
+  edge.imports.push(edgeImport);
+}
+
+/**
+ * Shortest cycle through the first node of the component (BFS inside the component)
+ */
+function shortestCycle(graph: DependencyGraph, component: string[]): string[] {
+  const members = new Set(component);
+  const start = component[0];
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const successor of [...(graph.edges.get(node)?.keys() ?? [])].sort()) {
+      if (!members.has(successor)) continue;
+
+      if (successor === start) {
+        const path = [start];
+        for (let current = node; current !== start; current = previous.get(current)!) {
+          path.splice(1, 0, current);
+        }
+        return [...path, start];
+      }
+
+      if (!previous.has(successor)) {
+        previous.set(successor, node);
+        queue.push(successor);
+      }
+    }
+  }
+
+  // Unreachable for a strongly connected component
+  return [start, start];
+}
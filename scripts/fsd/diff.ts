@@ -0,0 +1,137 @@
+// ============================================================================
+// Unified Diff
+// ============================================================================
+// Line-based unified diff (LCS) for previewing file changes in dry-run mode.
+// ============================================================================
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number };
+
+/**
+ * Unified diff between two versions of a file
+ *
+ * @param before - Previous content, or `null` for a new file
+ * @returns An empty string when the contents are equal
+ *
+ * @example
+ * ```typescript
+ * unifiedDiff('src/entities/user/index.ts', "export { a } from './a';\n", "export { a, b } from './a';\n");
+ * // --- a/src/entities/user/index.ts
+ * // +++ b/src/entities/user/index.ts
+ * // @@ -1 +1 @@
+ * // -export { a } from './a';
+ * // +export { a, b } from './a';
+ * ```
+ */
+export function unifiedDiff(path: string, before: string | null, after: string, context = 3): string {
+  if (before === after) return '';
+
+  const lines = diffLines(splitLines(before ?? ''), splitLines(after));
+  const header = [before === null ? '--- /dev/null' : `--- a/${path}`, `+++ b/${path}`];
+
+  return [...header, ...formatHunks(lines, context)].join('\n') + '\n';
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Common prefix / suffix keep the LCS table small for local edits
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const columns = newMiddle.length + 1;
+  const table = new Uint32Array((oldMiddle.length + 1) * columns);
+
+  for (let i = oldMiddle.length - 1; i >= 0; i -= 1) {
+    for (let j = newMiddle.length - 1; j >= 0; j -= 1) {
+      table[i * columns + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? table[(i + 1) * columns + j + 1] + 1
+          : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (kind: DiffLine['kind'], text: string) => {
+    result.push({ kind, text, oldLine, newLine });
+    if (kind !== '+') oldLine += 1;
+    if (kind !== '-') newLine += 1;
+  };
+
+  oldLines.slice(0, prefix).forEach((text) => push(' ', text));
+
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      push(' ', oldMiddle[i]);
+      i += 1;
+      j += 1;
+    } else if (i < oldMiddle.length && (j === newMiddle.length || table[(i + 1) * columns + j] >= table[i * columns + j + 1])) {
+      push('-', oldMiddle[i]);
+      i += 1;
+    } else {
+      push('+', newMiddle[j]);
+      j += 1;
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach((text) => push(' ', text));
+  return result;
+}
+
+function formatHunks(lines: DiffLine[], context: number): string[] {
+  const changed = lines.flatMap((line, index) => (line.kind === ' ' ? [] : [index]));
+  const output: string[] = [];
+  let cursor = 0;
+
+  while (cursor < changed.length) {
+    const start = Math.max(0, changed[cursor] - context);
+    let end = Math.min(lines.length, changed[cursor] + context + 1);
+
+    // Merge changes whose context windows touch
+    while (cursor + 1 < changed.length && changed[cursor + 1] - context <= end) {
+      cursor += 1;
+      end = Math.min(lines.length, changed[cursor] + context + 1);
+    }
+    cursor += 1;
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.kind !== '+').length;
+    const newCount = hunk.filter((line) => line.kind !== '-').length;
+    output.push(
+      `@@ -${range(hunk[0].oldLine, oldCount)} +${range(hunk[0].newLine, newCount)} @@`,
+      ...hunk.map((line) => `${line.kind}${line.text}`)
+    );
+  }
+
+  return output;
+}
+
+function range(start: number, count: number): string {
+  // An empty range points at the line before it (e.g. `-0,0` for a new file)
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
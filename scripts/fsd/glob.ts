@@ -0,0 +1,46 @@
+// ============================================================================
+// Glob Matching
+// ============================================================================
+// Minimal glob support for ignorePatterns and segment filePatterns:
+//   **   any number of path segments
+//   *    any characters except `/`
+//   ?    one character except `/`
+// ============================================================================
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to a regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+
+  let source = '';
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+
+    if (char === '*' && pattern[index + 1] === '*') {
+      const followedBySlash = pattern[index + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  cache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Whether a `/`-separated path matches any of the patterns
+ */
+export function matchesAny(path: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { parseImports, type ImportReference } from './imports.ts';
+
+type Case = [name: string, source: string, expected: ImportReference[]];
+
+const ref = (
+  kind: ImportReference['kind'],
+  specifier: string,
+  line: number,
+  column: number,
+  clause?: string,
+  typeOnly = false
+): ImportReference => ({ specifier, kind, typeOnly, ...(clause === undefined ? {} : { clause }), line, column });
+
+const cases: Case[] = [
+  [
+    'named, default, namespace and side-effect imports',
+    "import { a, b as c } from './a';\nimport d from \"./d\";\nimport * as e from './e';\nimport './styles.css';\n",
+    [
+      ref('static', './a', 1, 1, '{ a, b as c }'),
+      ref('static', './d', 2, 1, 'd'),
+      ref('static', './e', 3, 1, '* as e'),
+      ref('side-effect', './styles.css', 4, 1),
+    ],
+  ],
+  [
+    'type-only imports (and a default named "type")',
+    "import type { User } from '@/entities/user';\nimport { type Role, format } from '@/entities/user';\nimport type from './type';\n",
+    [
+      ref('static', '@/entities/user', 1, 1, '{ User }', true),
+      ref('static', '@/entities/user', 2, 1, '{ type Role, format }'),
+      ref('static', './type', 3, 1, ''),
+    ],
+  ],
+  [
+    'multi-line import',
+    "import {\n  a,\n  importB,\n  type C,\n} from './m';\n",
+    [ref('static', './m', 1, 1, '{\n  a,\n  importB,\n  type C,\n}')],
+  ],
+  [
+    'semicolon-less code: a named export does not swallow the next import',
+    "export { a }\nimport x from '@/entities/user/model/types'\n",
+    [ref('static', '@/entities/user/model/types', 2, 1, 'x')],
+  ],
+  [
+    'semicolon-less code: a default export does not swallow the next import',
+    "export default foo\nimport x from '@/entities/user/model/types'\n",
+    [ref('static', '@/entities/user/model/types', 2, 1, 'x')],
+  ],
+  [
+    'semicolon-less code: declarations between statements',
+    "import a from './a'\nconst b = a\nlet c\nexport { c } from './c'\n",
+    [ref('static', './a', 1, 1, 'a'), ref('re-export', './c', 4, 1, '{ c }')],
+  ],
+  [
+    'export … from statements',
+    "export { a, b as c } from './a';\nexport type { T } from './t';\nexport * from './all';\nexport * as ns from './ns';\nexport const local = 1;\n",
+    [
+      ref('re-export', './a', 1, 1, '{ a, b as c }'),
+      ref('re-export', './t', 2, 1, '{ T }', true),
+      ref('re-export', './all', 3, 1, '*'),
+      ref('re-export', './ns', 4, 1, '* as ns'),
+    ],
+  ],
+  [
+    'dynamic imports (template literals without substitutions only)',
+    "const Page = lazy(() => import('@/pages/home'));\nconst locale = await import(`./locales/en`);\nconst any = import(`./locales/${lang}`);\n",
+    [ref('dynamic', '@/pages/home', 1, 25), ref('dynamic', './locales/en', 2, 22)],
+  ],
+  [
+    'commented-out imports and import-like text in strings are ignored',
+    "// import a from './a';\n/* import b from './b'; */\nconst text = `import c from './c'`;\nimport d from './d';\n",
+    [ref('static', './d', 4, 1, 'd')],
+  ],
+];
+
+describe('parseImports', () => {
+  test.each(cases)('%s', (_name, source, expected) => {
+    expect(parseImports(source)).toEqual(expected);
+  });
+});
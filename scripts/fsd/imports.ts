@@ -0,0 +1,174 @@
+// ============================================================================
+// Import Parser
+// ============================================================================
+// Extracts every module reference from a TypeScript/JavaScript source file:
+//   - static imports            import { a } from 'x'; import 'x';
+//   - type-only imports         import type { A } from 'x';
+//   - re-exports                export { a } from 'x'; export * from 'x';
+//   - dynamic imports           import('x')
+// Comments are blanked out first so commented-out imports are not reported.
+// ============================================================================
+
+/**
+ * How a module is referenced
+ */
+export type ImportKind = 'static' | 'side-effect' | 're-export' | 'dynamic';
+
+/**
+ * One module reference in a source file
+ */
+export interface ImportReference {
+  /** Module specifier as written (e.g. '@/entities/user') */
+  specifier: string;
+  kind: ImportKind;
+  /** `import type` / `export type` */
+  typeOnly: boolean;
+  /** Clause between the keyword and `from` (e.g. '{ User, type Role }'); undefined for side-effect and dynamic imports */
+  clause?: string;
+  /** 1-based line of the statement */
+  line: number;
+  /** 1-based column of the statement */
+  column: number;
+}
+
+// The clause between `import`/`export` and `from` only contains identifiers,
+// braces, commas, `*` and whitespace — never `(`, `=` or quotes. That alone
+// still lets a match run from `export { a }` or `export default foo` into the
+// next line of semicolon-less code, so the clause also stops before a line
+// starting with `import` / `export`.
+const STATIC_STATEMENT =
+  /\b(import|export)(\s+type)?\s+(?:((?:(?!\n\s*(?:import|export)\b)[\w$*{},\s])*?)\s*from\s*)?(['"])([^'"\n]+)\4/g;
+const DYNAMIC_IMPORT = /\bimport\s*\(\s*(['"`])([^'"`$\n]+)\1\s*\)/g;
+
+/**
+ * Parse every module reference in the given source
+ *
+ * @example
+ * ```typescript
+ * parseImports("export { a }\nimport x from '@/entities/user/model/types'\n");
+ * // [{ specifier: '@/entities/user/model/types', kind: 'static', clause: 'x', line: 2, column: 1, ... }]
+ * ```
+ */
+export function parseImports(source: string): ImportReference[] {
+  const code = blankComments(source);
+  const lineStarts = computeLineStarts(code);
+  const references: ImportReference[] = [];
+
+  for (const match of code.matchAll(STATIC_STATEMENT)) {
+    const [, keyword, type, clause, , specifier] = match;
+    // `export` needs a clause (`export 'x'` is not a statement)
+    if (keyword === 'export' && clause === undefined) continue;
+    // `import type from 'x'` imports a default named "type"
+    const typeOnly = Boolean(type) && clause !== undefined && clause.trim().length > 0;
+
+    references.push({
+      specifier,
+      kind: keyword === 'export' ? 're-export' : clause === undefined ? 'side-effect' : 'static',
+      typeOnly,
+      clause: clause?.trim(),
+      ...toPosition(lineStarts, match.index ?? 0),
+    });
+  }
+
+  for (const match of code.matchAll(DYNAMIC_IMPORT)) {
+    references.push({
+      specifier: match[2],
+      kind: 'dynamic',
+      typeOnly: false,
+      ...toPosition(lineStarts, match.index ?? 0),
+    });
+  }
+
+  return references.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Replace comments (and template literal text) with spaces, keeping string
+ * literals and line breaks intact
+ */
+export function blankComments(source: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+
+    if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', index);
+      const stop = end === -1 ? source.length : end;
+      result += ' '.repeat(stop - index);
+      index = stop;
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', index + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      result += source.slice(index, stop).replace(/[^\n]/g, ' ');
+      index = stop;
+    } else if (char === '"' || char === "'") {
+      const stop = findStringEnd(source, index);
+      result += source.slice(index, stop);
+      index = stop;
+    } else if (char === '`') {
+      // Template literals are only kept as `import(\`...\`)` specifiers;
+      // anywhere else their text could look like an import statement
+      const stop = findStringEnd(source, index);
+      const literal = source.slice(index, stop);
+      result += /\bimport\s*\(\s*$/.test(result)
+        ? literal
+        : `\`${literal.slice(1, -1).replace(/[^\n]/g, ' ')}\``;
+      index = stop;
+    } else {
+      result += char;
+      index += 1;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Index just past the closing quote of the string starting at `start`
+ */
+function findStringEnd(source: string, start: number): number {
+  const quote = source[start];
+  let index = start + 1;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '\\') {
+      index += 2;
+      continue;
+    }
+    if (char === quote) return index + 1;
+    // Unterminated single-line string: stop at the line break
+    if (char === '\n' && quote !== '`') return index;
+    index += 1;
+  }
+
+  return source.length;
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < source.length; index += 1) {
+    if (source[index] === '\n') starts.push(index + 1);
+  }
+  return starts;
+}
+
+function toPosition(lineStarts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
@@ -0,0 +1,101 @@
+// ============================================================================
+// FSD Layout
+// ============================================================================
+// Maps project paths to FSD coordinates (layer / slice / segment) and resolves
+// import specifiers — relative or `@/...` aliases from `pathAliases` — to
+// project paths.
+// ============================================================================
+
+import { posix } from 'node:path';
+import type { DependencyRules } from './rules.ts';
+
+/**
+ * Layers that are split into segments directly, without slices
+ */
+export const UNSLICED_LAYERS = ['app', 'shared'];
+
+/**
+ * FSD coordinates of a project path
+ */
+export interface FsdLocation {
+  /** Project-relative path (e.g. 'src/entities/user/model/types') */
+  path: string;
+  layer: string;
+  /** Slice name (undefined for app/shared and for files directly in a layer) */
+  slice?: string;
+  /** Segment name (undefined for the slice root / Public API) */
+  segment?: string;
+  /** Path segments below the segment */
+  rest: string[];
+}
+
+/**
+ * Locate a project-relative path inside the FSD layers
+ *
+ * @param srcDir - Source directory holding the layers (e.g. 'src')
+ * @returns `null` when the path is outside every known layer
+ *
+ * @example
+ * ```typescript
+ * locate('src/entities/user/model/types.ts', 'src', rules);
+ * // { layer: 'entities', slice: 'user', segment: 'model', rest: ['types.ts'] }
+ * ```
+ */
+export function locate(path: string, srcDir: string, rules: DependencyRules): FsdLocation | null {
+  const relative = posix.relative(srcDir, path);
+  if (relative.startsWith('..') || posix.isAbsolute(relative)) return null;
+
+  const [layer, ...parts] = relative.split('/');
+  if (!Object.prototype.hasOwnProperty.call(rules.layers, layer)) return null;
+
+  if (UNSLICED_LAYERS.includes(layer)) {
+    const [segment, ...rest] = parts;
+    return { path, layer, segment: stripIndex(segment), rest };
+  }
+
+  // A file directly inside a sliced layer (e.g. pages/HomePage.tsx) has no slice
+  if (parts.length <= 1 && parts[0] !== undefined && /\.[jt]sx?$/.test(parts[0])) {
+    return { path, layer, rest: parts };
+  }
+
+  const [slice, segment, ...rest] = parts;
+  return { path, layer, slice, segment: stripIndex(segment), rest };
+}
+
+/**
+ * Resolve an import specifier to a project-relative path (without extension)
+ *
+ * @returns `null` for package imports (react, @tanstack/react-query, ...)
+ */
+export function resolveSpecifier(
+  specifier: string,
+  fromFile: string,
+  rules: DependencyRules
+): string | null {
+  if (specifier.startsWith('.')) {
+    return posix.normalize(posix.join(posix.dirname(fromFile), specifier));
+  }
+
+  const alias = Object.keys(rules.pathAliases)
+    .sort((a, b) => b.length - a.length)
+    .find((key) => specifier === key || specifier.startsWith(`${key}/`));
+  if (!alias) return null;
+
+  return posix.normalize(posix.join(rules.pathAliases[alias], specifier.slice(alias.length)));
+}
+
+/**
+ * Source directory implied by the path aliases (e.g. 'src' for '@/shared' → 'src/shared')
+ */
+export function inferSrcDir(rules: DependencyRules): string {
+  const first = Object.values(rules.pathAliases)[0];
+  return first ? posix.dirname(posix.normalize(first)) : 'src';
+}
+
+/**
+ * `slice/index` and `slice/index.ts` point at the slice root
+ */
+function stripIndex(segment: string | undefined): string | undefined {
+  if (segment === undefined || /^index(?:\.[jt]sx?)?$/.test(segment)) return undefined;
+  return segment;
+}
@@ -0,0 +1,230 @@
+// ============================================================================
+// Slice Naming
+// ============================================================================
+// Derives every case form a template needs from one kebab-case slice name,
+// and validates names against the /fsd-slice naming rules:
+//   - Must be lowercase
+//   - Use kebab-case for multi-word names
+//   - No spaces or special characters
+// ============================================================================
+
+/**
+ * All case forms derived from one slice name
+ */
+export interface NameForms {
+  /** order-item */
+  kebab: string;
+  /** orderItem */
+  camel: string;
+  /** OrderItem */
+  pascal: string;
+  /** ORDER_ITEM */
+  screamingSnake: string;
+  plural: {
+    /** order-items */
+    kebab: string;
+    /** orderItems */
+    camel: string;
+    /** OrderItems */
+    pascal: string;
+  };
+}
+
+/**
+ * Case used by a template's lowercase placeholder (`{{entityName}}`, `{{featureName}}`, ...)
+ *
+ * The entity template uses it in identifiers (camelCase), while the feature and
+ * widget templates use it in paths and CSS classes (kebab-case).
+ */
+export type PlaceholderStyle = 'camel' | 'kebab';
+
+/**
+ * Error thrown when a slice name breaks the naming rules
+ */
+export class InvalidSliceNameError extends Error {
+  constructor(
+    public sliceName: string,
+    public problems: string[]
+  ) {
+    super(`Invalid slice name "${sliceName}":\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'InvalidSliceNameError';
+  }
+}
+
+/**
+ * Error thrown when rendered output still contains `{{...}}` tokens
+ */
+export class UnresolvedPlaceholderError extends Error {
+  constructor(public unresolved: Array<{ path: string; tokens: string[] }>) {
+    super(
+      `Unresolved placeholders:\n${unresolved
+        .map(({ path, tokens }) => `  - ${path}: ${tokens.join(', ')}`)
+        .join('\n')}`
+    );
+    this.name = 'UnresolvedPlaceholderError';
+  }
+}
+
+const KEBAB_CASE = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/;
+const PLACEHOLDER_TOKEN = /\{\{\w+\}\}/g;
+
+/**
+ * List every naming rule a slice name breaks (empty when valid)
+ */
+export function getSliceNameProblems(name: string): string[] {
+  const problems: string[] = [];
+
+  if (name.length === 0) {
+    return ['Name must not be empty'];
+  }
+  if (name !== name.toLowerCase()) {
+    problems.push('Must be lowercase');
+  }
+  if (/\s/.test(name)) {
+    problems.push('Must not contain spaces');
+  }
+  if (/[^A-Za-z0-9\s-]/.test(name)) {
+    problems.push('Must not contain special characters (use kebab-case, e.g. order-item)');
+  }
+  if (/^[^A-Za-z]/.test(name)) {
+    problems.push('Must start with a letter');
+  }
+  if (/--|-$/.test(name)) {
+    problems.push('Must not contain empty kebab-case segments');
+  }
+  if (problems.length === 0 && !KEBAB_CASE.test(name)) {
+    problems.push('Must be kebab-case (e.g. order-item)');
+  }
+
+  return problems;
+}
+
+/**
+ * Throw `InvalidSliceNameError` when the name breaks the naming rules
+ */
+export function assertValidSliceName(name: string): void {
+  const problems = getSliceNameProblems(name);
+  if (problems.length > 0) {
+    throw new InvalidSliceNameError(name, problems);
+  }
+}
+
+/**
+ * Derive all case forms from a kebab-case slice name
+ *
+ * @example
+ * ```typescript
+ * deriveNameForms('order-item');
+ * // {
+ * //   kebab: 'order-item', camel: 'orderItem', pascal: 'OrderItem',
+ * //   screamingSnake: 'ORDER_ITEM',
+ * //   plural: { kebab: 'order-items', camel: 'orderItems', pascal: 'OrderItems' },
+ * // }
+ * ```
+ */
+export function deriveNameForms(name: string): NameForms {
+  assertValidSliceName(name);
+
+  const words = name.split('-');
+  const pluralWords = [...words.slice(0, -1), pluralize(words[words.length - 1])];
+
+  return {
+    kebab: words.join('-'),
+    camel: toCamel(words),
+    pascal: toPascal(words),
+    screamingSnake: words.join('_').toUpperCase(),
+    plural: {
+      kebab: pluralWords.join('-'),
+      camel: toCamel(pluralWords),
+      pascal: toPascal(pluralWords),
+    },
+  };
+}
+
+/**
+ * Build the placeholder values for one template variable family
+ *
+ * For `prefix = 'entity'` and `style = 'camel'` this produces:
+ * - `{{entityName}}`: orderItem
+ * - `{{EntityName}}`: OrderItem
+ * - `{{entityNameKebab}}`: order-item
+ * - `{{entityNames}}` / `{{EntityNames}}` / `{{entityNamesKebab}}`: plural forms
+ * - `{{ENTITY_NAME}}`: ORDER_ITEM
+ */
+export function buildPlaceholders(
+  prefix: string,
+  forms: NameForms,
+  style: PlaceholderStyle
+): Record<string, string> {
+  const lower = `${prefix}Name`;
+  const upper = `${capitalize(prefix)}Name`;
+
+  return {
+    [lower]: style === 'camel' ? forms.camel : forms.kebab,
+    [upper]: forms.pascal,
+    [`${lower}Kebab`]: forms.kebab,
+    [`${lower}s`]: style === 'camel' ? forms.plural.camel : forms.plural.kebab,
+    [`${upper}s`]: forms.plural.pascal,
+    [`${lower}sKebab`]: forms.plural.kebab,
+    [`${prefix.toUpperCase()}_NAME`]: forms.screamingSnake,
+  };
+}
+
+/**
+ * Placeholder values for a mutation operation (`{{operation}}` / `{{Operation}}`)
+ */
+export function buildOperationPlaceholders(operation: string): Record<string, string> {
+  const forms = deriveNameForms(operation);
+  return {
+    operation: forms.camel,
+    Operation: forms.pascal,
+  };
+}
+
+/**
+ * Collect `{{...}}` tokens left in the given text (deduplicated, in order)
+ */
+export function findUnresolvedPlaceholders(text: string): string[] {
+  return [...new Set(text.match(PLACEHOLDER_TOKEN) ?? [])];
+}
+
+/**
+ * Throw `UnresolvedPlaceholderError` when any file path or content still has tokens
+ */
+export function assertNoUnresolvedPlaceholders(files: Array<{ path: string; content: string }>): void {
+  const unresolved = files
+    .map((file) => ({
+      path: file.path,
+      tokens: findUnresolvedPlaceholders(`${file.path}\n${file.content}`),
+    }))
+    .filter(({ tokens }) => tokens.length > 0);
+
+  if (unresolved.length > 0) {
+    throw new UnresolvedPlaceholderError(unresolved);
+  }
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function toCamel(words: string[]): string {
+  return words.map((word, index) => (index === 0 ? word : capitalize(word))).join('');
+}
+
+function toPascal(words: string[]): string {
+  return words.map(capitalize).join('');
+}
+
+/**
+ * Minimal English pluralization for resource names
+ */
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(?:s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
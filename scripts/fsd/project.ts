@@ -0,0 +1,96 @@
+// ============================================================================
+// Project Scanner
+// ============================================================================
+// Collects the source files of a project together with their imports.
+// ============================================================================
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, posix, relative, sep } from 'node:path';
+import { matchesAny } from './glob.ts';
+import { parseImports, type ImportReference } from './imports.ts';
+
+/**
+ * Extensions treated as source files
+ */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * A scanned source file
+ */
+export interface ProjectFile {
+  /** Path relative to the project root, `/`-separated */
+  path: string;
+  content: string;
+  imports: ImportReference[];
+}
+
+/**
+ * Options for scanning a project
+ */
+export interface ScanOptions {
+  /** Project root (default: process.cwd()) */
+  root?: string;
+  /** Directory to scan, relative to the root (default: 'src') */
+  srcDir?: string;
+  /** Glob patterns (relative to the root) to skip */
+  ignorePatterns?: string[];
+}
+
+/**
+ * Read every source file below `srcDir`, sorted by path
+ */
+export async function scanProject(options: ScanOptions = {}): Promise<ProjectFile[]> {
+  const root = options.root ?? process.cwd();
+  const ignorePatterns = options.ignorePatterns ?? [];
+  const paths: string[] = [];
+
+  const walk = async (directory: string) => {
+    const entries = await readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      const absolute = join(directory, entry.name);
+      const path = toProjectPath(root, absolute);
+      if (matchesAny(path, ignorePatterns) || matchesAny(`${path}/`, ignorePatterns)) continue;
+
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) await walk(absolute);
+      } else if (SOURCE_EXTENSIONS.some((extension) => entry.name.endsWith(extension))) {
+        paths.push(path);
+      }
+    }
+  };
+
+  await walk(join(root, options.srcDir ?? 'src'));
+
+  return Promise.all(
+    paths.sort().map(async (path) => {
+      const content = await readFile(join(root, path), 'utf8');
+      return { path, content, imports: parseImports(content) };
+    })
+  );
+}
+
+/**
+ * Find the scanned file an extensionless project path refers to
+ *
+ * `src/entities/user` matches `src/entities/user.ts` or `src/entities/user/index.ts(x)`.
+ */
+export function findProjectFile(
+  target: string,
+  filesByPath: ReadonlyMap<string, ProjectFile>
+): ProjectFile | undefined {
+  const candidates = [
+    target,
+    ...SOURCE_EXTENSIONS.map((extension) => `${target}${extension}`),
+    ...SOURCE_EXTENSIONS.map((extension) => posix.join(target, `index${extension}`)),
+  ];
+
+  for (const candidate of candidates) {
+    const file = filesByPath.get(candidate);
+    if (file) return file;
+  }
+  return undefined;
+}
+
+function toProjectPath(root: string, absolute: string): string {
+  return relative(root, absolute).split(sep).join('/');
+}
@@ -0,0 +1,329 @@
+// ============================================================================
+// Public API (Barrel) Analysis
+// ============================================================================
+// Reads the exports of a set of files and rewrites `index.ts` barrels so they
+// only re-export symbols that actually exist. Used by the slice generator when
+// segments are left out, so the generated Public API always compiles.
+// ============================================================================
+
+import { posix } from 'node:path';
+
+/**
+ * Minimal file shape the analysis works on (path relative to the source root)
+ */
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * A named re-export statement: `export { a, type B } from './x';`
+ */
+export interface ReExport {
+  /** Exact statement text */
+  statement: string;
+  /** Offset of the statement in the file */
+  start: number;
+  /** `export type { ... }` */
+  typeOnly: boolean;
+  /** Exported names (the `as` alias when present) paired with the local name */
+  specifiers: Array<{ name: string; local: string; typeOnly: boolean }>;
+  /** Module specifier (e.g. './model') */
+  source: string;
+}
+
+/**
+ * A wildcard re-export statement: `export * from './x';`
+ */
+export interface StarExport {
+  statement: string;
+  start: number;
+  /** `export * as ns from './x'` */
+  namespace?: string;
+  source: string;
+}
+
+const NAMED_RE_EXPORT = /export\s+(type\s+)?\{([^}]*)\}\s*from\s*['"]([^'"]+)['"];?/g;
+const STAR_RE_EXPORT = /export\s+\*\s+(?:as\s+(\w+)\s+)?from\s*['"]([^'"]+)['"];?/g;
+const DECLARATION =
+  /export\s+(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|const|let|var|class|interface|type|enum)\s+(\w+)/g;
+const LOCAL_EXPORT_LIST = /export\s+(?:type\s+)?\{([^}]*)\}(?!\s*from)/g;
+const SOURCE_EXTENSIONS = ['.ts', '.tsx'];
+
+/**
+ * Parse the named re-export statements of a file
+ */
+export function parseReExports(content: string): ReExport[] {
+  return [...content.matchAll(NAMED_RE_EXPORT)].map((match) => ({
+    statement: match[0],
+    start: match.index ?? 0,
+    typeOnly: Boolean(match[1]),
+    specifiers: parseSpecifiers(match[2], Boolean(match[1])),
+    source: match[3],
+  }));
+}
+
+/**
+ * Parse the wildcard re-export statements of a file
+ */
+export function parseStarExports(content: string): StarExport[] {
+  return [...content.matchAll(STAR_RE_EXPORT)].map((match) => ({
+    statement: match[0],
+    start: match.index ?? 0,
+    namespace: match[1],
+    source: match[2],
+  }));
+}
+
+/**
+ * Resolve a relative module specifier against the given file set
+ *
+ * `./model` from `entities/user/index.ts` resolves to `entities/user/model.ts`,
+ * `entities/user/model.tsx`, `entities/user/model/index.ts` or
+ * `entities/user/model/index.tsx`, whichever exists.
+ */
+export function resolveRelativeModule(
+  fromPath: string,
+  specifier: string,
+  paths: ReadonlySet<string>
+): string | null {
+  if (!specifier.startsWith('.')) return null;
+
+  const base = posix.join(posix.dirname(fromPath), specifier);
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map((extension) => `${base}${extension}`),
+    ...SOURCE_EXTENSIONS.map((extension) => posix.join(base, `index${extension}`)),
+  ];
+
+  return candidates.find((candidate) => paths.has(candidate)) ?? null;
+}
+
+/**
+ * Compute the exported names of every file, following re-exports
+ */
+export function collectExports(files: SourceFile[]): Map<string, Set<string>> {
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const paths = new Set(byPath.keys());
+  const result = new Map<string, Set<string>>();
+  const visiting = new Set<string>();
+
+  const visit = (path: string): Set<string> => {
+    const cached = result.get(path);
+    if (cached) return cached;
+
+    const names = new Set<string>();
+    const file = byPath.get(path);
+    if (!file || visiting.has(path)) return names;
+    visiting.add(path);
+
+    for (const match of file.content.matchAll(DECLARATION)) {
+      names.add(match[1]);
+    }
+    for (const match of file.content.matchAll(LOCAL_EXPORT_LIST)) {
+      for (const specifier of parseSpecifiers(match[1], false)) {
+        names.add(specifier.name);
+      }
+    }
+    for (const reExport of parseReExports(file.content)) {
+      const target = resolveRelativeModule(path, reExport.source, paths);
+      if (!target) continue;
+      const available = visit(target);
+      for (const specifier of reExport.specifiers) {
+        if (available.has(specifier.local)) names.add(specifier.name);
+      }
+    }
+    for (const starExport of parseStarExports(file.content)) {
+      const target = resolveRelativeModule(path, starExport.source, paths);
+      if (!target) continue;
+      if (starExport.namespace) {
+        names.add(starExport.namespace);
+      } else {
+        visit(target).forEach((name) => names.add(name));
+      }
+    }
+
+    visiting.delete(path);
+    result.set(path, names);
+    return names;
+  };
+
+  files.forEach((file) => visit(file.path));
+  return result;
+}
+
+/**
+ * Find the file that declares an exported name, following re-exports
+ *
+ * `format` exported by `entities/user/index.ts` through
+ * `export { format } from './ui/card'` comes from `entities/user/ui/card.ts`.
+ * Namespace exports (`export * as ns`) come from the file that declares them.
+ *
+ * @returns The declaring file, or `null` when the name is not exported
+ */
+export function findExportOrigin(files: SourceFile[], path: string, name: string): string | null {
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const paths = new Set(byPath.keys());
+  const visiting = new Set<string>();
+
+  const visit = (current: string, exported: string): string | null => {
+    const file = byPath.get(current);
+    if (!file || visiting.has(current)) return null;
+    if (declares(file.content, exported)) return current;
+
+    visiting.add(current);
+    let origin: string | null = null;
+    for (const reExport of parseReExports(file.content)) {
+      const specifier = reExport.specifiers.find((item) => item.name === exported);
+      const target = specifier && resolveRelativeModule(current, reExport.source, paths);
+      if (target) {
+        origin = visit(target, specifier.local);
+        break;
+      }
+    }
+    for (const starExport of parseStarExports(file.content)) {
+      if (origin || starExport.namespace) continue;
+      const target = resolveRelativeModule(current, starExport.source, paths);
+      origin = target ? visit(target, exported) : null;
+    }
+    visiting.delete(current);
+    return origin;
+  };
+
+  return visit(path, name);
+}
+
+/**
+ * Rewrite every `index.ts` barrel so it only re-exports existing symbols
+ *
+ * Re-exports from missing modules are removed, and named re-exports are
+ * narrowed to the names the target module still exports.
+ */
+export function pruneBarrels<T extends SourceFile>(files: T[]): T[] {
+  const paths = new Set(files.map((file) => file.path));
+  let current = files;
+
+  // Pruning one barrel can shrink the exports of barrels that re-export it,
+  // so repeat until nothing changes (depth is bounded by the barrel nesting)
+  for (let pass = 0; pass < files.length; pass += 1) {
+    const exportsByPath = collectExports(current);
+    let changed = false;
+
+    current = current.map((file) => {
+      if (!isBarrel(file.path)) return file;
+
+      const content = pruneBarrel(file, paths, exportsByPath);
+      if (content === file.content) return file;
+
+      changed = true;
+      return { ...file, content };
+    });
+
+    if (!changed) break;
+  }
+
+  return current;
+}
+
+/**
+ * Whether the path is a Public API barrel (`index.ts` / `index.tsx`)
+ */
+export function isBarrel(path: string): boolean {
+  return /(?:^|\/)index\.tsx?$/.test(path);
+}
+
+/**
+ * Format a named re-export statement
+ */
+export function formatReExport(names: string[], source: string, typeOnly: boolean): string {
+  return `export ${typeOnly ? 'type ' : ''}{ ${names.join(', ')} } from '${source}';`;
+}
+
+/**
+ * Parse a `{ a, type B, c as d }` list (braces stripped); `name` is the
+ * alias when present and `local` the name before `as`
+ */
+export function parseSpecifiers(list: string, statementTypeOnly: boolean) {
+  return list
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const typeOnly = statementTypeOnly || part.startsWith('type ');
+      const [local, alias] = part.replace(/^type\s+/, '').split(/\s+as\s+/);
+      return { name: (alias ?? local).trim(), local: local.trim(), typeOnly };
+    });
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Whether the file itself declares the exported name (declaration, local
+ * export list or namespace re-export)
+ */
+function declares(content: string, name: string): boolean {
+  return (
+    [...content.matchAll(DECLARATION)].some((match) => match[1] === name) ||
+    [...content.matchAll(LOCAL_EXPORT_LIST)].some((match) =>
+      parseSpecifiers(match[1], false).some((specifier) => specifier.name === name)
+    ) ||
+    parseStarExports(content).some((starExport) => starExport.namespace === name)
+  );
+}
+
+function pruneBarrel(
+  file: SourceFile,
+  paths: ReadonlySet<string>,
+  exportsByPath: Map<string, Set<string>>
+): string {
+  let content = file.content;
+
+  for (const reExport of parseReExports(file.content)) {
+    const target = resolveRelativeModule(file.path, reExport.source, paths);
+    const available = target ? exportsByPath.get(target) ?? new Set<string>() : new Set<string>();
+    const kept = reExport.specifiers.filter((specifier) => available.has(specifier.local));
+
+    if (kept.length === reExport.specifiers.length) continue;
+
+    const replacement =
+      kept.length === 0
+        ? ''
+        : formatReExport(
+            kept.map((specifier) =>
+              [
+                !reExport.typeOnly && specifier.typeOnly ? 'type ' : '',
+                specifier.local,
+                specifier.local === specifier.name ? '' : ` as ${specifier.name}`,
+              ].join('')
+            ),
+            reExport.source,
+            reExport.typeOnly
+          );
+    content = content.replace(reExport.statement, replacement);
+  }
+
+  for (const starExport of parseStarExports(file.content)) {
+    if (!resolveRelativeModule(file.path, starExport.source, paths)) {
+      content = content.replace(starExport.statement, '');
+    }
+  }
+
+  return content === file.content ? content : tidyBarrel(content);
+}
+
+/**
+ * Collapse the blank lines left by removed statements; an emptied barrel
+ * keeps `export {};` so it is still a module
+ */
+function tidyBarrel(content: string): string {
+  const tidied = content
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (/^\s*(?:export|import)\b/m.test(tidied)) return `${tidied}\n`;
+  return `${tidied.length > 0 ? `${tidied}\n` : ''}export {};\n`;
+}
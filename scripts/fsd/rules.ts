@@ -0,0 +1,82 @@
+// ============================================================================
+// Dependency Rules
+// ============================================================================
+// Zod schema and types of the resolved FSD configuration — the shape of
+// skills/fsd-architecture/rules/dependency-rules.json. Projects override it
+// with `.fsdrc.json`; see config.ts for loading and merging.
+// ============================================================================
+
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+
+/**
+ * Layer definition
+ */
+export const LayerRuleSchema = z
+  .object({
+    /** Position in the hierarchy; a layer may only import lower levels (fractions slot a custom layer in between) */
+    level: z.number().positive(),
+    canImportFrom: z.array(z.string()),
+    description: z.string().optional(),
+    segments: z.array(z.string()).optional(),
+    examples: z.array(z.string()).optional(),
+  })
+  .strict();
+
+/**
+ * Segment definition
+ */
+export const SegmentRuleSchema = z
+  .object({
+    description: z.string().optional(),
+    filePatterns: z.array(z.string()),
+    examples: z.array(z.string()).optional(),
+  })
+  .strict();
+
+export const RuleFlagsSchema = z
+  .object({
+    publicApiRequired: z.boolean(),
+    publicApiFiles: z.array(z.string()).min(1),
+    allowCrossSliceImports: z.boolean(),
+    strictLayerDependencies: z.boolean(),
+    enforceSegmentOrganization: z.boolean(),
+  })
+  .strict();
+
+export const ValidationFlagsSchema = z
+  .object({
+    checkImports: z.boolean(),
+    checkPublicApi: z.boolean(),
+    checkCircularDependencies: z.boolean(),
+    checkLayerViolations: z.boolean(),
+    checkCrossSliceImports: z.boolean(),
+  })
+  .strict();
+
+/**
+ * Resolved configuration (bundled defaults with every override applied)
+ */
+export const DependencyRulesSchema = z
+  .object({
+    version: z.string(),
+    description: z.string().optional(),
+    layers: z.record(z.string(), LayerRuleSchema),
+    segments: z.record(z.string(), SegmentRuleSchema),
+    rules: RuleFlagsSchema,
+    validation: ValidationFlagsSchema,
+    pathAliases: z.record(z.string(), z.string()),
+    ignorePatterns: z.array(z.string()),
+  })
+  .strict();
+
+export type LayerRule = z.infer<typeof LayerRuleSchema>;
+export type SegmentRule = z.infer<typeof SegmentRuleSchema>;
+export type DependencyRules = z.infer<typeof DependencyRulesSchema>;
+
+/**
+ * Bundled dependency-rules.json
+ */
+export const DEFAULT_RULES_PATH = fileURLToPath(
+  new URL('../../skills/fsd-architecture/rules/dependency-rules.json', import.meta.url)
+);
@@ -0,0 +1,45 @@
+// ============================================================================
+// FSD Scaffold
+// ============================================================================
+// Directory layout and path aliases implied by the FSD config, so /fsd-init
+// creates custom layers (e.g. `processes`) and custom segments (e.g.
+// `shared/i18n`) exactly like the built-in ones.
+// ============================================================================
+
+import { posix } from 'node:path';
+import { UNSLICED_LAYERS } from './layout.ts';
+import type { DependencyRules } from './rules.ts';
+
+/**
+ * Directories to create below the source directory, highest layer first:
+ * every layer, plus the segments of layers without slices (app, shared)
+ *
+ * @example
+ * ```typescript
+ * planLayerDirectories(rules);
+ * // ['app', 'app/providers', ..., 'processes', 'pages', ..., 'shared/i18n']
+ * ```
+ */
+export function planLayerDirectories(rules: DependencyRules): string[] {
+  return Object.entries(rules.layers)
+    .sort(([, a], [, b]) => b.level - a.level)
+    .flatMap(([name, layer]) => [
+      name,
+      ...(UNSLICED_LAYERS.includes(name) ? (layer.segments ?? []).map((segment) => posix.join(name, segment)) : []),
+    ]);
+}
+
+/**
+ * `compilerOptions.paths` entries for the configured path aliases
+ *
+ * @example
+ * ```typescript
+ * tsconfigPaths(rules);
+ * // { '@/app/*': ['src/app/*'], ..., '@/processes/*': ['src/processes/*'] }
+ * ```
+ */
+export function tsconfigPaths(rules: DependencyRules): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(rules.pathAliases).map(([alias, target]) => [`${alias}/*`, [`${posix.normalize(target)}/*`]])
+  );
+}
@@ -0,0 +1,60 @@
+// ============================================================================
+// Segment Placement
+// ============================================================================
+// Matches file names against `segments.*.filePatterns` to tell which segment
+// a file belongs in (`user.queries.ts` → api, `UserCard.tsx` → ui). When
+// several segments match, the most specific pattern wins: `*.queries.ts`
+// says more about a file than `*.tsx`.
+// ============================================================================
+
+import { globToRegExp } from './glob.ts';
+import type { DependencyRules } from './rules.ts';
+
+/**
+ * Segment a file name belongs in, and the pattern that says so
+ */
+export interface SegmentMatch {
+  segment: string;
+  pattern: string;
+}
+
+/**
+ * Segment whose filePatterns match a file name best
+ *
+ * @returns `null` when no segment claims the file (e.g. `client.ts`)
+ *
+ * @example
+ * ```typescript
+ * segmentForFile('user.queries.ts', rules); // { segment: 'api', pattern: '*.queries.ts' }
+ * segmentForFile('UserCard.tsx', rules);    // { segment: 'ui', pattern: '*.tsx' }
+ * ```
+ */
+export function segmentForFile(fileName: string, rules: DependencyRules): SegmentMatch | null {
+  let best: (SegmentMatch & { specificity: number }) | null = null;
+
+  for (const [segment, definition] of Object.entries(rules.segments)) {
+    for (const pattern of definition.filePatterns) {
+      if (!globToRegExp(pattern).test(fileName)) continue;
+
+      const specificity = pattern.replace(/[*?]/g, '').length;
+      if (!best || specificity > best.specificity) best = { segment, pattern, specificity };
+    }
+  }
+
+  return best && { segment: best.segment, pattern: best.pattern };
+}
+
+/**
+ * Whether a file name matches one of a segment's filePatterns
+ */
+export function fitsSegment(fileName: string, segment: string, rules: DependencyRules): boolean {
+  return (rules.segments[segment]?.filePatterns ?? []).some((pattern) => globToRegExp(pattern).test(fileName));
+}
+
+/**
+ * Segments a layer may contain: every configured segment plus the layer's own
+ * (e.g. `providers` in app)
+ */
+export function knownSegments(layer: string, rules: DependencyRules): string[] {
+  return [...new Set([...Object.keys(rules.segments), ...(rules.layers[layer]?.segments ?? [])])];
+}
@@ -0,0 +1,253 @@
+// ============================================================================
+// Slice Generator
+// ============================================================================
+// Turns one kebab-case slice name into a fully rendered slice: derives the
+// placeholder values, renders the bundled template, keeps only the selected
+// segments and rewrites the Public API barrels to match. Output that still
+// contains unresolved `{{...}}` tokens is rejected.
+//
+// Custom layers (declared in .fsdrc.json) have no template; their slices get
+// a skeleton of empty segment barrels behind the Public API.
+// ============================================================================
+
+import { posix } from 'node:path';
+import {
+  assertNoUnresolvedPlaceholders,
+  buildPlaceholders,
+  deriveNameForms,
+  type PlaceholderStyle,
+} from './naming.ts';
+import { pruneBarrels } from './public-api.ts';
+import { loadSliceTemplate, renderTemplate, type RenderedFile, type SliceKind } from './template-renderer.ts';
+
+/**
+ * Placeholder family used by each slice template
+ */
+export const SLICE_PLACEHOLDERS: Record<SliceKind, { prefix: string; style: PlaceholderStyle }> = {
+  entity: { prefix: 'entity', style: 'camel' },
+  feature: { prefix: 'feature', style: 'kebab' },
+  widget: { prefix: 'widget', style: 'kebab' },
+};
+
+/**
+ * Segments a slice can contain when the project config is not passed
+ * (see `segments` in rules/dependency-rules.json)
+ */
+export const SLICE_SEGMENTS = ['ui', 'api', 'model', 'lib', 'config'] as const;
+
+/**
+ * Pagination styles of an entity's list endpoint (shared/api/pagination.ts)
+ */
+export const PAGINATION_STYLES = ['offset', 'cursor', 'keyset'] as const;
+
+export type PaginationStyle = (typeof PAGINATION_STYLES)[number];
+
+/**
+ * Files that only exist for the React Query integration
+ */
+const REACT_QUERY_FILE = /\.(?:queries|keys)\.tsx?$/;
+
+/**
+ * Relative import of a sibling segment from inside a segment (`from '../model'`)
+ */
+const SIBLING_SEGMENT_IMPORT = /from\s+['"]\.\.\/(\w+)(?:\/[^'"]*)?['"]/g;
+
+/**
+ * Options for generating a slice
+ */
+export interface GenerateSliceOptions {
+  kind: SliceKind;
+  /** kebab-case slice name (e.g. order-item) */
+  name: string;
+  /** Additional or overriding placeholder values */
+  values?: Record<string, string>;
+  /** Segments to generate (default: every segment in the template) */
+  segments?: string[];
+  /** Include queryOptions and query key factories (default: true) */
+  reactQuery?: boolean;
+  /** Pagination style of the entity's `getPage` / `infinite` query (default: 'offset') */
+  pagination?: PaginationStyle;
+  /** Segments the project defines (default: SLICE_SEGMENTS) */
+  knownSegments?: readonly string[];
+}
+
+/**
+ * Options for generating a slice of a layer without a template
+ */
+export interface GenerateLayerSliceOptions {
+  /** Layer directory (e.g. processes) */
+  layer: string;
+  /** kebab-case slice name (e.g. checkout) */
+  name: string;
+  segments: string[];
+  /** Segments the project defines (default: SLICE_SEGMENTS) */
+  knownSegments?: readonly string[];
+}
+
+/**
+ * Result of generating a slice
+ */
+export interface GeneratedSlice {
+  files: RenderedFile[];
+  /** Segments actually generated */
+  segments: string[];
+  /** Segments added because a selected segment imports them */
+  impliedSegments: string[];
+}
+
+/**
+ * Render a slice from its bundled template
+ *
+ * @throws InvalidSliceNameError when the name breaks the naming rules
+ * @throws UnresolvedPlaceholderError when the output still has `{{...}}` tokens
+ *
+ * @example
+ * ```typescript
+ * const { files } = await generateSlice({
+ *   kind: 'entity',
+ *   name: 'order-item',
+ *   segments: ['model', 'api'],
+ * });
+ * // entities/order-item/index.ts no longer re-exports OrderItemCard
+ * ```
+ */
+export async function generateSlice(options: GenerateSliceOptions): Promise<GeneratedSlice> {
+  const { prefix, style } = SLICE_PLACEHOLDERS[options.kind];
+  const forms = deriveNameForms(options.name);
+
+  const values = {
+    ...buildPlaceholders(prefix, forms, style),
+    ...paginationPlaceholders(options.pagination ?? 'offset'),
+    ...options.values,
+  };
+  // Slice directories and file names always follow the kebab-case slice name
+  const pathValues = { ...values, [`${prefix}Name`]: forms.kebab };
+
+  const rendered = renderTemplate(await loadSliceTemplate(options.kind), values, pathValues).filter(
+    (file) => options.reactQuery !== false || !REACT_QUERY_FILE.test(file.path)
+  );
+
+  const selected = options.segments
+    ? validateSegments(options.segments, options.knownSegments)
+    : templateSegments(rendered);
+  const segments = resolveSegmentDependencies(rendered, selected);
+  const files = pruneBarrels([
+    ...rendered.filter((file) => isIncluded(file, segments)),
+    ...missingSegmentStubs(rendered, segments, templateRoot(rendered)),
+  ]);
+
+  assertNoUnresolvedPlaceholders(files);
+
+  return {
+    files,
+    segments,
+    impliedSegments: segments.filter((segment) => !selected.includes(segment)),
+  };
+}
+
+/**
+ * Skeleton slice for a layer without a bundled template (custom layers):
+ * an empty barrel per segment, re-exported from the Public API
+ *
+ * @throws InvalidSliceNameError when the name breaks the naming rules
+ *
+ * @example
+ * ```typescript
+ * const { files } = generateLayerSlice({ layer: 'processes', name: 'checkout', segments: ['model', 'ui'] });
+ * // processes/checkout/index.ts, processes/checkout/model/index.ts, processes/checkout/ui/index.ts
+ * ```
+ */
+export function generateLayerSlice(options: GenerateLayerSliceOptions): GeneratedSlice {
+  const root = posix.join(options.layer, deriveNameForms(options.name).kebab);
+  const segments = validateSegments(options.segments, options.knownSegments);
+  const index = segments.map((segment) => `export * from './${segment}';\n`).join('');
+
+  return {
+    files: [
+      { path: posix.join(root, 'index.ts'), content: `// Public API of ${root}\n${index || 'export {};\n'}` },
+      ...missingSegmentStubs([], segments, root),
+    ],
+    segments,
+    impliedSegments: [],
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Segment of a rendered file (`entities/user/api/user.api.ts` → `api`);
+ * `null` for files at the slice root such as the Public API
+ */
+function segmentOf(file: RenderedFile): string | null {
+  const parts = file.path.split('/');
+  return parts.length > 3 ? parts[2] : null;
+}
+
+/**
+ * `{{pagination}}` / `{{Pagination}}` (e.g. cursor / Cursor)
+ */
+function paginationPlaceholders(style: PaginationStyle): Record<string, string> {
+  return { pagination: style, Pagination: style.charAt(0).toUpperCase() + style.slice(1) };
+}
+
+function isIncluded(file: RenderedFile, segments: string[]): boolean {
+  const segment = segmentOf(file);
+  return segment === null || segments.includes(segment);
+}
+
+function templateSegments(files: RenderedFile[]): string[] {
+  return [...new Set(files.map(segmentOf).filter((segment): segment is string => segment !== null))];
+}
+
+function validateSegments(segments: string[], known: readonly string[] = SLICE_SEGMENTS): string[] {
+  const unknown = segments.filter((segment) => !known.includes(segment));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown segment(s): ${unknown.join(', ')}. Expected: ${known.join(', ')}`);
+  }
+  return [...new Set(segments)];
+}
+
+/**
+ * Add the segments that the selected segments import (e.g. `api` → `model`)
+ */
+function resolveSegmentDependencies(files: RenderedFile[], selected: string[]): string[] {
+  const segments = new Set(selected);
+  let size = -1;
+
+  while (segments.size !== size) {
+    size = segments.size;
+    for (const file of files) {
+      const segment = segmentOf(file);
+      if (segment === null || !segments.has(segment)) continue;
+
+      for (const match of file.content.matchAll(SIBLING_SEGMENT_IMPORT)) {
+        if (templateSegments(files).includes(match[1])) segments.add(match[1]);
+      }
+    }
+  }
+
+  return [...segments];
+}
+
+/**
+ * Slice root directory of the rendered files (e.g. `entities/order-item`)
+ */
+function templateRoot(files: RenderedFile[]): string {
+  return files[0].path.split('/').slice(0, 2).join('/');
+}
+
+/**
+ * Selected segments the template has no files for get an empty barrel
+ */
+function missingSegmentStubs(files: RenderedFile[], segments: string[], root: string): RenderedFile[] {
+  const existing = templateSegments(files);
+
+  return segments
+    .filter((segment) => !existing.includes(segment))
+    .map((segment) => ({
+      path: posix.join(root, segment, 'index.ts'),
+      content: `// ${segment} public exports\nexport {};\n`,
+    }));
+}
@@ -0,0 +1,46 @@
+// ============================================================================
+// Inline Suppressions
+// ============================================================================
+// `// fsd-ignore-next-line <rule>[, <rule>...]` exempts the import statement
+// on the next line from the listed rules (every rule when none is listed).
+// Comment text after ` -- ` is a free-form reason:
+//
+//   // fsd-ignore-next-line public-api-violation -- codegen output, no index.ts
+//   import { schema } from '@/entities/user/model/generated';
+// ============================================================================
+
+const DIRECTIVE = /\/\/\s*fsd-ignore-next-line\b([^\n]*)/;
+
+/**
+ * Rules suppressed per 1-based line (`'all'` when the directive lists none)
+ */
+export type Suppressions = Map<number, Set<string> | 'all'>;
+
+/**
+ * Find the `fsd-ignore-next-line` directives of a file
+ */
+export function parseSuppressions(content: string): Suppressions {
+  const suppressions: Suppressions = new Map();
+
+  content.split('\n').forEach((line, index) => {
+    const match = DIRECTIVE.exec(line);
+    if (!match) return;
+
+    const rules = match[1]
+      .split(' -- ')[0]
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    // The directive applies to the line after the comment (1-based: index + 2)
+    suppressions.set(index + 2, rules.length > 0 ? new Set(rules) : 'all');
+  });
+
+  return suppressions;
+}
+
+/**
+ * Whether a rule is suppressed on a line
+ */
+export function isSuppressed(suppressions: Suppressions, line: number, rule: string): boolean {
+  const rules = suppressions.get(line);
+  return rules === 'all' || (rules !== undefined && rules.has(rule));
+}
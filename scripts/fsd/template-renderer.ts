@@ -0,0 +1,275 @@
+// ============================================================================
+// Template Renderer
+// ============================================================================
+// Parses the multi-file slice templates (`// File: ...` banners), substitutes
+// `{{placeholder}}` tokens and writes every section to its own file.
+//
+// Template layout:
+//   // ============================================================================
+//   // File: entities/{{entityName}}/index.ts
+//   // Optional description lines
+//   // ============================================================================
+//   ...section content...
+//
+// Banners titled USAGE EXAMPLES / ADVANCED PATTERNS (and the leading template
+// header) are documentation only and are dropped from the output.
+// ============================================================================
+
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Slice kinds that ship a multi-file template
+ */
+export type SliceKind = 'entity' | 'feature' | 'widget';
+
+/**
+ * Template file for each slice kind
+ */
+export const SLICE_TEMPLATES: Record<SliceKind, string> = {
+  entity: 'entity-slice.template.ts',
+  feature: 'feature-slice.template.ts',
+  widget: 'widget-slice.template.ts',
+};
+
+/**
+ * Banner titles whose blocks are documentation, not generated code
+ */
+const DOCUMENTATION_BLOCKS = ['USAGE EXAMPLES', 'ADVANCED PATTERNS'];
+
+const RULE_LINE = /^\/\/ ={10,}\s*$/;
+const FILE_LINE = /^\/\/ File:\s*(\S+)\s*$/;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * One `// File:` section of a template
+ */
+export interface TemplateSection {
+  /** Output path as written in the banner (placeholders unresolved) */
+  path: string;
+  /** Description lines below the `// File:` line */
+  description: string;
+  /** Section body without the banner */
+  content: string;
+}
+
+/**
+ * A rendered file ready to be written
+ */
+export interface RenderedFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Options for writing rendered files
+ */
+export interface WriteOptions {
+  /** Overwrite files that already exist (default: false) */
+  overwrite?: boolean;
+  /** Only report what would be written (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Error thrown when a rendered file would clobber an existing one
+ */
+export class FileExistsError extends Error {
+  constructor(public path: string) {
+    super(`Refusing to overwrite existing file: ${path}`);
+    this.name = 'FileExistsError';
+  }
+}
+
+/**
+ * Parse a multi-file template into its `// File:` sections
+ *
+ * @example
+ * ```typescript
+ * const sections = parseTemplate(source);
+ * sections.map((section) => section.path);
+ * // ['entities/{{entityName}}/index.ts', 'entities/{{entityName}}/model/types.ts', ...]
+ * ```
+ */
+export function parseTemplate(source: string): TemplateSection[] {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const sections: TemplateSection[] = [];
+  let current: { path: string; description: string[]; body: string[] } | null = null;
+  let index = 0;
+
+  const flush = () => {
+    if (current) {
+      sections.push({
+        path: current.path,
+        description: current.description.join('\n'),
+        content: trimBlankLines(current.body),
+      });
+    }
+    current = null;
+  };
+
+  while (index < lines.length) {
+    const banner = readBanner(lines, index);
+
+    if (!banner) {
+      current?.body.push(lines[index]);
+      index += 1;
+      continue;
+    }
+
+    const fileMatch = banner.title.match(FILE_LINE);
+    if (fileMatch) {
+      flush();
+      current = { path: fileMatch[1], description: banner.description, body: [] };
+    } else if (isDocumentationBanner(banner.title)) {
+      // Skip everything up to the next `// File:` banner (or EOF)
+      flush();
+      index = banner.end;
+      while (index < lines.length && !readBanner(lines, index)?.title.match(FILE_LINE)) {
+        index += 1;
+      }
+      continue;
+    } else if (current) {
+      // A section-internal banner (e.g. "CREATE MUTATION") belongs to the body
+      current.body.push(...lines.slice(index, banner.end));
+    }
+
+    index = banner.end;
+  }
+
+  flush();
+  return sections;
+}
+
+/**
+ * Replace every `{{name}}` token that has a value; unknown tokens are kept
+ */
+export function substitutePlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (token, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token
+  );
+}
+
+/**
+ * Render all sections of a template with the given placeholder values
+ *
+ * @param pathValues - Values used for output paths instead of `values`
+ *   (e.g. kebab-case slice directories for camelCase identifiers)
+ */
+export function renderTemplate(
+  source: string,
+  values: Record<string, string>,
+  pathValues: Record<string, string> = values
+): RenderedFile[] {
+  return parseTemplate(source).map((section) => ({
+    path: substitutePlaceholders(section.path, pathValues),
+    content: substitutePlaceholders(section.content, values),
+  }));
+}
+
+/**
+ * Absolute path of a bundled slice template
+ */
+export function resolveSliceTemplate(kind: SliceKind): string {
+  return fileURLToPath(
+    new URL(`../../skills/fsd-architecture/templates/${SLICE_TEMPLATES[kind]}`, import.meta.url)
+  );
+}
+
+/**
+ * Read a bundled slice template
+ */
+export async function loadSliceTemplate(kind: SliceKind): Promise<string> {
+  return readFile(resolveSliceTemplate(kind), 'utf8');
+}
+
+/**
+ * Write rendered files below `rootDir`
+ *
+ * All target paths are checked before anything is written, so a conflict
+ * never leaves a half-generated slice behind.
+ *
+ * @returns Absolute paths of the (would-be) written files
+ */
+export async function writeRenderedFiles(
+  files: RenderedFile[],
+  rootDir: string,
+  options: WriteOptions = {}
+): Promise<string[]> {
+  const targets = files.map((file) => ({ ...file, target: join(rootDir, file.path) }));
+
+  if (!options.overwrite) {
+    for (const { target } of targets) {
+      if (await exists(target)) {
+        throw new FileExistsError(target);
+      }
+    }
+  }
+
+  if (!options.dryRun) {
+    for (const { target, content } of targets) {
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, content, 'utf8');
+    }
+  }
+
+  return targets.map(({ target }) => target);
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+interface Banner {
+  /** First line between the rule lines */
+  title: string;
+  /** Remaining lines between the rule lines, without `// ` */
+  description: string[];
+  /** Index of the first line after the closing rule line */
+  end: number;
+}
+
+/**
+ * Read a `// ====` / `// Title` / `// ====` banner starting at `start`
+ */
+function readBanner(lines: string[], start: number): Banner | null {
+  if (!RULE_LINE.test(lines[start] ?? '')) return null;
+
+  const title = lines[start + 1] ?? '';
+  if (!title.startsWith('//') || RULE_LINE.test(title)) return null;
+
+  const description: string[] = [];
+  for (let index = start + 2; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (RULE_LINE.test(line)) {
+      return { title: title.trim(), description, end: index + 1 };
+    }
+    if (!line.startsWith('//')) return null;
+    description.push(line.replace(/^\/\/ ?/, ''));
+  }
+
+  return null;
+}
+
+function isDocumentationBanner(title: string): boolean {
+  const text = title.replace(/^\/\/\s*/, '').trim();
+  return DOCUMENTATION_BLOCKS.includes(text);
+}
+
+function trimBlankLines(lines: string[]): string {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start += 1;
+  while (end > start && lines[end - 1].trim() === '') end -= 1;
+  return `${lines.slice(start, end).join('\n')}\n`;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
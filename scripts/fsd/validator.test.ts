@@ -0,0 +1,194 @@
+import { describe, expect, test } from 'bun:test';
+import { loadFsdConfig } from './config.ts';
+import { parseImports } from './imports.ts';
+import type { ProjectFile } from './project.ts';
+import { validateImports, type Violation } from './validator.ts';
+
+const { rules } = await loadFsdConfig({ root: import.meta.dir });
+
+type Case = [name: string, sources: Record<string, string>, expected: Violation[]];
+
+function validate(sources: Record<string, string>): Violation[] {
+  const files: ProjectFile[] = Object.entries(sources).map(([path, content]) => ({
+    path,
+    content,
+    imports: parseImports(content),
+  }));
+  return validateImports(files, rules, { srcDir: 'src' });
+}
+
+const USER = {
+  'src/entities/user/model/types.ts': 'export interface User { id: string }\n',
+  'src/entities/user/index.ts': "export type { User } from './model/types';\n",
+};
+
+const deepImport = (line: number, snippet: string): Violation => ({
+  rule: 'public-api-violation',
+  severity: 'error',
+  file: 'src/features/auth/model/login.ts',
+  line,
+  column: 1,
+  specifier: '@/entities/user/model/types',
+  snippet,
+  message: 'Direct import bypassing the Public API of entities/user',
+  suggestion: "import from '@/entities/user'",
+});
+
+const crossSlice = (file: string, from: string, to: string, snippet: string): Violation => ({
+  rule: 'cross-slice-import',
+  severity: 'warning',
+  file,
+  line: 1,
+  column: 1,
+  specifier: `@/features/${to}`,
+  snippet,
+  message: `features/${from} importing from another slice in the same layer (features/${to})`,
+  suggestion: 'Move the shared code to a lower layer (e.g. shared/lib) or compose both slices in a higher layer',
+});
+
+const cases: Case[] = [
+  [
+    'deep import in semicolon-less code is reported on its own line',
+    {
+      ...USER,
+      'src/features/auth/model/login.ts': "export { a }\nimport x from '@/entities/user/model/types'\nconst a = x\n",
+      'src/features/auth/index.ts': "export * from './model/login';\n",
+    },
+    [deepImport(2, "import x from '@/entities/user/model/types'")],
+  ],
+  [
+    'multi-line deep import',
+    {
+      ...USER,
+      'src/features/auth/model/login.ts': "import {\n  type User,\n} from '@/entities/user/model/types';\nexport type Session = User;\n",
+      'src/features/auth/index.ts': "export * from './model/login';\n",
+    },
+    [deepImport(1, 'import {')],
+  ],
+  [
+    'export … from a lower layer and a dynamic import of a higher layer',
+    {
+      ...USER,
+      'src/pages/home/index.ts': 'export const HomePage = 1;\n',
+      'src/features/auth/model/login.ts':
+        "export { type User } from '@/entities/user/model/types';\nexport const load = () => import('@/pages/home');\n",
+      'src/features/auth/index.ts': "export * from './model/login';\n",
+    },
+    [
+      deepImport(1, "export { type User } from '@/entities/user/model/types';"),
+      {
+        rule: 'layer-violation',
+        severity: 'error',
+        file: 'src/features/auth/model/login.ts',
+        line: 2,
+        column: 27,
+        specifier: '@/pages/home',
+        snippet: "export const load = () => import('@/pages/home');",
+        message: 'features layer importing from pages layer',
+        suggestion: 'Move the shared logic to a layer features can import from (entities, shared)',
+      },
+    ],
+  ],
+  [
+    'fsd-ignore-next-line with a rule list only suppresses those rules',
+    {
+      ...USER,
+      'src/pages/home/index.ts': 'export const HomePage = 1;\n',
+      'src/features/auth/model/login.ts': [
+        '// fsd-ignore-next-line public-api-violation -- generated code',
+        "import type { User } from '@/entities/user/model/types';",
+        '// fsd-ignore-next-line public-api-violation',
+        "import { HomePage } from '@/pages/home';",
+        'export type Session = User;',
+        'export const page = HomePage;',
+        '',
+      ].join('\n'),
+      'src/features/auth/index.ts': "export * from './model/login';\n",
+    },
+    [
+      {
+        rule: 'layer-violation',
+        severity: 'error',
+        file: 'src/features/auth/model/login.ts',
+        line: 4,
+        column: 1,
+        specifier: '@/pages/home',
+        snippet: "import { HomePage } from '@/pages/home';",
+        message: 'features layer importing from pages layer',
+        suggestion: 'Move the shared logic to a layer features can import from (entities, shared)',
+      },
+    ],
+  ],
+  [
+    'fsd-ignore-next-line without a rule list suppresses every rule, on the next line only',
+    {
+      ...USER,
+      'src/features/auth/model/login.ts': [
+        '// fsd-ignore-next-line',
+        "import type { User } from '@/entities/user/model/types';",
+        '',
+        "import { type User as Account } from '@/entities/user/model/types';",
+        'export type Session = User | Account;',
+        '',
+      ].join('\n'),
+      'src/features/auth/index.ts': "export * from './model/login';\n",
+    },
+    [deepImport(4, "import { type User as Account } from '@/entities/user/model/types';")],
+  ],
+  [
+    'cycle between slices is reported on the import of its cheapest edge',
+    {
+      'src/features/cart/model/cart.ts': "import { pay } from '@/features/payment';\nexport const cart = () => pay;\n",
+      'src/features/cart/index.ts': "export { cart } from './model/cart';\n",
+      'src/features/payment/model/pay.ts': "import { cart } from '@/features/cart';\nexport const pay = () => cart;\n",
+      'src/features/payment/index.ts': "export { pay } from './model/pay';\n",
+    },
+    [
+      crossSlice('src/features/cart/model/cart.ts', 'cart', 'payment', "import { pay } from '@/features/payment';"),
+      {
+        rule: 'circular-dependency',
+        severity: 'error',
+        file: 'src/features/cart/model/cart.ts',
+        line: 1,
+        column: 1,
+        specifier: '@/features/payment',
+        snippet: "import { pay } from '@/features/payment';",
+        message: 'Circular dependency between slices: features/cart -> features/payment -> features/cart',
+        suggestion:
+          'Break features/cart -> features/payment (cheapest edge, 1 import: src/features/cart/model/cart.ts:1)',
+        cycle: ['features/cart', 'features/payment', 'features/cart'],
+      },
+      crossSlice('src/features/payment/model/pay.ts', 'payment', 'cart', "import { cart } from '@/features/cart';"),
+    ],
+  ],
+  [
+    'cycle between files of one slice',
+    {
+      'src/entities/order/model/order.ts': "import { line } from './line';\nexport const order = () => line;\n",
+      'src/entities/order/model/line.ts': "import { order } from './order';\nexport const line = () => order;\n",
+      'src/entities/order/index.ts': "export { order } from './model/order';\n",
+    },
+    [
+      {
+        rule: 'circular-dependency',
+        severity: 'warning',
+        file: 'src/entities/order/model/line.ts',
+        line: 1,
+        column: 1,
+        specifier: './order',
+        snippet: "import { order } from './order';",
+        message:
+          'Circular dependency between files: src/entities/order/model/line.ts -> src/entities/order/model/order.ts -> src/entities/order/model/line.ts',
+        suggestion:
+          'Break src/entities/order/model/line.ts -> src/entities/order/model/order.ts (cheapest edge, 1 import: src/entities/order/model/line.ts:1)',
+        cycle: ['src/entities/order/model/line.ts', 'src/entities/order/model/order.ts', 'src/entities/order/model/line.ts'],
+      },
+    ],
+  ],
+];
+
+describe('validateImports', () => {
+  test.each(cases)('%s', (_name, sources, expected) => {
+    expect(validate(sources)).toEqual(expected);
+  });
+});
@@ -0,0 +1,370 @@
+// ============================================================================
+// FSD Import Validator
+// ============================================================================
+// Checks every import of a scanned project against dependency-rules.json:
+//   - layer-violation        layer imports a layer not in `canImportFrom`
+//   - cross-slice-import     slice imports another slice of the same layer
+//   - public-api-violation   import bypasses the target slice's index.ts
+//   - missing-public-api     slice has no index.ts / index.tsx
+//   - circular-dependency    slices (or files of one slice) import each other
+//   - segment-organization   file sits in a segment its filePatterns do not
+//                            match, or in a segment folder no config declares
+// Imports preceded by `// fsd-ignore-next-line <rule>` are exempt.
+// ============================================================================
+
+import { posix } from 'node:path';
+import { findCircularDependencies, formatCycle, type Cycle } from './dependency-graph.ts';
+import type { ImportReference } from './imports.ts';
+import { locate, resolveSpecifier, UNSLICED_LAYERS, type FsdLocation } from './layout.ts';
+import type { ProjectFile } from './project.ts';
+import type { DependencyRules } from './rules.ts';
+import { fitsSegment, knownSegments, segmentForFile } from './segments.ts';
+import { isSuppressed, parseSuppressions, type Suppressions } from './suppressions.ts';
+
+/**
+ * Identifier of a validation rule
+ */
+export type FsdRuleId =
+  | 'layer-violation'
+  | 'cross-slice-import'
+  | 'public-api-violation'
+  | 'missing-public-api'
+  | 'circular-dependency'
+  | 'segment-organization';
+
+export type Severity = 'error' | 'warning';
+
+/**
+ * A single rule violation
+ */
+export interface Violation {
+  rule: FsdRuleId;
+  severity: Severity;
+  /** Project-relative file (or slice directory) path */
+  file: string;
+  /** 1-based line (0 for directory-level violations) */
+  line: number;
+  /** 1-based column (0 for directory-level violations) */
+  column: number;
+  /** Offending import specifier (empty for file-level violations) */
+  specifier: string;
+  /** Source line of the offending import */
+  snippet: string;
+  message: string;
+  /** Suggested fix */
+  suggestion?: string;
+  /** Cycle chain for circular-dependency violations (first node repeated at the end) */
+  cycle?: string[];
+}
+
+/**
+ * Options for validating a project
+ */
+export interface ValidateOptions {
+  /** Directory holding the layers, relative to the project root (e.g. 'src') */
+  srcDir: string;
+  /** Only report violations in files matching this scope (e.g. 'features' or 'features/auth') */
+  scope?: string;
+}
+
+/**
+ * Validate the imports of the scanned files
+ */
+export function validateImports(
+  files: ProjectFile[],
+  rules: DependencyRules,
+  options: ValidateOptions
+): Violation[] {
+  const violations: Violation[] = [];
+  const checks = rules.validation;
+
+  for (const file of files) {
+    const from = locate(file.path, options.srcDir, rules);
+    if (!from || !isInScope(from, options.scope)) continue;
+
+    const lines = file.content.split('\n');
+
+    for (const reference of file.imports) {
+      const targetPath = resolveSpecifier(reference.specifier, file.path, rules);
+      if (!targetPath) continue;
+
+      const to = locate(targetPath, options.srcDir, rules);
+      if (!to) continue;
+
+      const report = (violation: Omit<Violation, 'file' | 'line' | 'column' | 'specifier' | 'snippet'>) =>
+        violations.push({
+          ...violation,
+          file: file.path,
+          line: reference.line,
+          column: reference.column,
+          specifier: reference.specifier,
+          snippet: (lines[reference.line - 1] ?? '').trim(),
+        });
+
+      if (checks.checkImports && checks.checkLayerViolations) {
+        checkLayer(from, to, rules, report);
+      }
+      if (checks.checkImports && checks.checkCrossSliceImports) {
+        checkCrossSlice(from, to, rules, report);
+      }
+      if (checks.checkPublicApi && rules.rules.publicApiRequired) {
+        checkPublicApiImport(from, to, reference, rules, options.srcDir, report);
+      }
+    }
+  }
+
+  if (checks.checkPublicApi && rules.rules.publicApiRequired) {
+    violations.push(...checkPublicApiFiles(files, rules, options));
+  }
+
+  if (checks.checkCircularDependencies) {
+    violations.push(...checkCircularDependencies(files, rules, options));
+  }
+
+  if (rules.rules.enforceSegmentOrganization) {
+    violations.push(...checkSegmentOrganization(files, rules, options));
+  }
+
+  return filterSuppressed(violations, files).sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+  );
+}
+
+/**
+ * Alias specifier of a slice's Public API (e.g. '@/entities/user')
+ */
+export function publicApiSpecifier(location: FsdLocation, srcDir: string, rules: DependencyRules): string {
+  const layerPath = posix.join(srcDir, location.layer);
+  const alias = Object.keys(rules.pathAliases).find(
+    (key) => posix.normalize(rules.pathAliases[key]) === layerPath
+  );
+  const base = alias ?? layerPath;
+  return location.slice ? `${base}/${location.slice}` : base;
+}
+
+/**
+ * Whether a location lies in a `layer` or `layer/slice` scope (no scope = everything)
+ */
+export function isInScope(location: FsdLocation, scope: string | undefined): boolean {
+  if (!scope) return true;
+  const [layer, slice] = scope.split('/');
+  return location.layer === layer && (slice === undefined || location.slice === slice);
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+type Report = (violation: Omit<Violation, 'file' | 'line' | 'column' | 'specifier' | 'snippet'>) => void;
+
+function checkLayer(from: FsdLocation, to: FsdLocation, rules: DependencyRules, report: Report) {
+  if (from.layer === to.layer) return;
+
+  const allowed = rules.layers[from.layer]?.canImportFrom ?? [];
+  if (allowed.includes(to.layer)) return;
+
+  report({
+    rule: 'layer-violation',
+    severity: rules.rules.strictLayerDependencies ? 'error' : 'warning',
+    message: `${from.layer} layer importing from ${to.layer} layer`,
+    suggestion:
+      allowed.length > 0
+        ? `Move the shared logic to a layer ${from.layer} can import from (${allowed.join(', ')})`
+        : `${from.layer} cannot import from other layers; move the code into ${from.layer}`,
+  });
+}
+
+function checkCrossSlice(from: FsdLocation, to: FsdLocation, rules: DependencyRules, report: Report) {
+  if (rules.rules.allowCrossSliceImports) return;
+  if (from.layer !== to.layer || UNSLICED_LAYERS.includes(from.layer)) return;
+  if (!from.slice || !to.slice || from.slice === to.slice) return;
+
+  report({
+    rule: 'cross-slice-import',
+    severity: 'warning',
+    message: `${from.layer}/${from.slice} importing from another slice in the same layer (${to.layer}/${to.slice})`,
+    suggestion: 'Move the shared code to a lower layer (e.g. shared/lib) or compose both slices in a higher layer',
+  });
+}
+
+function checkPublicApiImport(
+  from: FsdLocation,
+  to: FsdLocation,
+  reference: ImportReference,
+  rules: DependencyRules,
+  srcDir: string,
+  report: Report
+) {
+  if (UNSLICED_LAYERS.includes(to.layer) || !to.slice || to.segment === undefined) return;
+  // Imports inside the same slice may use any path
+  if (from.layer === to.layer && from.slice === to.slice) return;
+
+  report({
+    rule: 'public-api-violation',
+    severity: 'error',
+    message: `Direct import bypassing the Public API of ${to.layer}/${to.slice}`,
+    suggestion: `import from '${publicApiSpecifier(to, srcDir, rules)}'${
+      reference.typeOnly ? ' (type-only)' : ''
+    }`,
+  });
+}
+
+function checkPublicApiFiles(
+  files: ProjectFile[],
+  rules: DependencyRules,
+  options: ValidateOptions
+): Violation[] {
+  const slices = new Map<string, FsdLocation>();
+  const paths = new Set(files.map((file) => file.path));
+
+  for (const file of files) {
+    const location = locate(file.path, options.srcDir, rules);
+    if (!location?.slice || UNSLICED_LAYERS.includes(location.layer)) continue;
+    if (!isInScope(location, options.scope)) continue;
+    slices.set(posix.join(options.srcDir, location.layer, location.slice), location);
+  }
+
+  const violations: Violation[] = [];
+  for (const [sliceDir, location] of slices) {
+    const hasPublicApi = rules.rules.publicApiFiles.some((name) => paths.has(posix.join(sliceDir, name)));
+    if (hasPublicApi) continue;
+
+    violations.push({
+      rule: 'missing-public-api',
+      severity: 'error',
+      file: sliceDir,
+      line: 0,
+      column: 0,
+      specifier: '',
+      snippet: '',
+      message: `Slice ${location.layer}/${location.slice} has no Public API (${rules.rules.publicApiFiles.join(' or ')})`,
+      suggestion: `Create ${sliceDir}/index.ts exporting the slice's public symbols`,
+    });
+  }
+
+  return violations;
+}
+
+function checkCircularDependencies(
+  files: ProjectFile[],
+  rules: DependencyRules,
+  options: ValidateOptions
+): Violation[] {
+  const filesByPath = new Map(files.map((file) => [file.path, file]));
+  // A cycle is in scope when one of its imports starts in the scope
+  const inScope = (cycle: Cycle) =>
+    cycle.edges.some((edge) =>
+      edge.imports.some((edgeImport) => {
+        const location = locate(edgeImport.file, options.srcDir, rules);
+        return location !== null && isInScope(location, options.scope);
+      })
+    );
+
+  return findCircularDependencies(files, rules, { srcDir: options.srcDir })
+    .filter(inScope)
+    .map((cycle) => {
+      const [first] = cycle.cheapestEdge.imports;
+      const lines = filesByPath.get(first.file)?.content.split('\n') ?? [];
+      const count = cycle.cheapestEdge.imports.length;
+
+      return {
+        rule: 'circular-dependency',
+        severity: cycle.level === 'slice' ? 'error' : 'warning',
+        file: first.file,
+        line: first.line,
+        column: first.column,
+        specifier: first.specifier,
+        snippet: (lines[first.line - 1] ?? '').trim(),
+        message: `Circular dependency between ${cycle.level === 'slice' ? 'slices' : 'files'}: ${formatCycle(cycle)}`,
+        suggestion: `Break ${cycle.cheapestEdge.from} -> ${cycle.cheapestEdge.to} (cheapest edge, ${count} import${
+          count === 1 ? '' : 's'
+        }: ${cycle.cheapestEdge.imports.map((edgeImport) => `${edgeImport.file}:${edgeImport.line}`).join(', ')})`,
+        cycle: cycle.path,
+      } satisfies Violation;
+    });
+}
+
+function checkSegmentOrganization(
+  files: ProjectFile[],
+  rules: DependencyRules,
+  options: ValidateOptions
+): Violation[] {
+  const violations: Violation[] = [];
+  // Unknown segment folders, with the segments their files' names point to
+  const unknownFolders = new Map<string, { location: FsdLocation; votes: Map<string, number> }>();
+  const report = (file: string, message: string, suggestion: string) =>
+    violations.push({
+      rule: 'segment-organization',
+      severity: 'warning',
+      file,
+      line: 0,
+      column: 0,
+      specifier: '',
+      snippet: '',
+      message,
+      suggestion,
+    });
+
+  for (const file of files) {
+    const location = locate(file.path, options.srcDir, rules);
+    // Only files inside a segment folder; slice roots hold the Public API
+    if (!location?.segment || location.rest.length === 0 || !isInScope(location, options.scope)) continue;
+
+    const fileName = posix.basename(file.path);
+    const segmentDir = posix.join(options.srcDir, location.layer, location.slice ?? '', location.segment);
+    const expected = segmentForFile(fileName, rules);
+
+    if (!knownSegments(location.layer, rules).includes(location.segment)) {
+      const folder = unknownFolders.get(segmentDir) ?? { location, votes: new Map<string, number>() };
+      if (expected) folder.votes.set(expected.segment, (folder.votes.get(expected.segment) ?? 0) + 1);
+      unknownFolders.set(segmentDir, folder);
+      continue;
+    }
+
+    // Segments without filePatterns (e.g. app/providers) accept any file
+    if (!expected || expected.segment === location.segment || !rules.segments[location.segment]) continue;
+    if (/^index\.[jt]sx?$/.test(fileName) || fitsSegment(fileName, location.segment, rules)) continue;
+
+    report(
+      file.path,
+      `${fileName} belongs in the ${expected.segment} segment (${expected.pattern}), not ${location.segment}`,
+      `Move it to ${posix.join(posix.dirname(segmentDir), expected.segment, ...location.rest)}`
+    );
+  }
+
+  for (const [segmentDir, { location, votes }] of unknownFolders) {
+    const known = knownSegments(location.layer, rules);
+    const [target] = [...votes].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0] ?? [];
+    const owner = location.slice ? `${location.layer}/${location.slice}` : location.layer;
+
+    report(
+      segmentDir,
+      `Unknown segment "${location.segment}" in ${owner}; known segments: ${known.join(', ')}`,
+      target
+        ? `Move its files to ${posix.join(posix.dirname(segmentDir), target)}, or declare "${location.segment}" under segments in .fsdrc.json`
+        : `Move its files into a known segment, or declare "${location.segment}" under segments in .fsdrc.json`
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Drop violations exempted by an `fsd-ignore-next-line` directive
+ */
+function filterSuppressed(violations: Violation[], files: ProjectFile[]): Violation[] {
+  const contents = new Map(files.map((file) => [file.path, file.content]));
+  const cache = new Map<string, Suppressions>();
+
+  return violations.filter((violation) => {
+    const content = contents.get(violation.file);
+    if (content === undefined || violation.line === 0) return true;
+
+    let suppressions = cache.get(violation.file);
+    if (!suppressions) {
+      suppressions = parseSuppressions(content);
+      cache.set(violation.file, suppressions);
+    }
+    return !isSuppressed(suppressions, violation.line, violation.rule);
+  });
+}
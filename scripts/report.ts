@@ -0,0 +1,63 @@
+// ============================================================================
+// Report converter CLI
+// ============================================================================
+// Converts a report in the shared model (scripts/report/model.ts) to JSON,
+// SARIF 2.1.0 or JUnit XML. /quality-check, /code-smell and /validate-schema
+// write their findings as a report JSON and convert it with this script;
+// /fsd-validate emits the formats directly (--format).
+//
+// Usage:
+//   bun scripts/report.ts <report.json> --format <json|sarif|junit> [options]
+//
+// Options:
+//   --format <name>    Output format (required)
+//   --output <file>    Write to a file instead of stdout
+//   --fail-on <level>  Exit 1 when findings at or above this level exist
+//                      (error | warning | note, default: error)
+// ============================================================================
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { assertReportFormat, serializeReport } from './report/format.ts';
+import { FINDING_LEVELS, isAtLeast, parseReport, type FindingLevel } from './report/model.ts';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      output: { type: 'string' },
+      'fail-on': { type: 'string', default: 'error' },
+    },
+  });
+
+  const [input] = positionals;
+  if (!input || !values.format) {
+    console.error('Usage: bun scripts/report.ts <report.json> --format <json|sarif|junit> [--output <file>] [--fail-on <level>]');
+    process.exit(2);
+  }
+
+  assertReportFormat(values.format);
+  const failOn = values['fail-on'] as FindingLevel;
+  if (!FINDING_LEVELS.includes(failOn)) {
+    throw new Error(`Unknown --fail-on level "${failOn}" (expected ${FINDING_LEVELS.join(', ')})`);
+  }
+
+  const report = parseReport(JSON.parse(await readFile(input, 'utf8')));
+  const output = serializeReport(report, values.format, { failOn });
+
+  if (values.output) {
+    await writeFile(values.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (report.findings.some((finding) => isAtLeast(finding.level, failOn))) {
+    process.exit(1);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(2);
+});
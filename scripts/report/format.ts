@@ -0,0 +1,62 @@
+// ============================================================================
+// Report Formats
+// ============================================================================
+
+import { toJson } from './json.ts';
+import { toJUnit } from './junit.ts';
+import type { AnalysisReport, FindingLevel } from './model.ts';
+import { toSarif } from './sarif.ts';
+
+/**
+ * Machine-readable output formats
+ */
+export const REPORT_FORMATS = ['json', 'sarif', 'junit'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/**
+ * Options shared by every serializer
+ */
+export interface SerializeOptions {
+  /** Lowest level treated as a failure (JUnit <failure>) — default 'error' */
+  failOn?: FindingLevel;
+}
+
+/**
+ * Thrown for an unknown `--format` value
+ */
+export class UnknownReportFormatError extends Error {
+  constructor(public format: string) {
+    super(`Unknown report format "${format}" (expected ${REPORT_FORMATS.join(', ')})`);
+    this.name = 'UnknownReportFormatError';
+  }
+}
+
+/**
+ * Narrow a CLI value to a report format
+ *
+ * @throws {UnknownReportFormatError}
+ */
+export function assertReportFormat(format: string): asserts format is ReportFormat {
+  if (!(REPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new UnknownReportFormatError(format);
+  }
+}
+
+/**
+ * Serialize a report in the given format
+ */
+export function serializeReport(
+  report: AnalysisReport,
+  format: ReportFormat,
+  options: SerializeOptions = {}
+): string {
+  switch (format) {
+    case 'json':
+      return toJson(report);
+    case 'sarif':
+      return toSarif(report);
+    case 'junit':
+      return toJUnit(report, options);
+  }
+}
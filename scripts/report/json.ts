@@ -0,0 +1,12 @@
+// ============================================================================
+// JSON Serializer
+// ============================================================================
+
+import { summarizeReport, type AnalysisReport } from './model.ts';
+
+/**
+ * Serialize a report as JSON, with per-level counts under `summary`
+ */
+export function toJson(report: AnalysisReport): string {
+  return `${JSON.stringify({ ...report, summary: summarizeReport(report) }, null, 2)}\n`;
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// JUnit XML Serializer
+// ============================================================================
+// One <testsuite> per rule, one <testcase> per finding. Rules without
+// findings get a single passing test case so CI dashboards show what was
+// checked. Findings below `failOn` are recorded as passing cases with
+// <system-out> instead of <failure>.
+// ============================================================================
+
+import { isAtLeast, type AnalysisReport, type Finding, type FindingLevel } from './model.ts';
+
+/**
+ * Options for the JUnit serializer
+ */
+export interface JUnitOptions {
+  /** Lowest level reported as <failure> (default: 'error') */
+  failOn?: FindingLevel;
+}
+
+/**
+ * Serialize a report as JUnit XML
+ */
+export function toJUnit(report: AnalysisReport, options: JUnitOptions = {}): string {
+  const failOn = options.failOn ?? 'error';
+  const ruleIds = [
+    ...report.rules.map((rule) => rule.id),
+    ...report.findings.map((finding) => finding.ruleId),
+  ].filter((id, index, ids) => ids.indexOf(id) === index);
+  const ruleNames = new Map(report.rules.map((rule) => [rule.id, rule.name]));
+
+  let totalTests = 0;
+  let totalFailures = 0;
+  const suites = ruleIds.map((ruleId) => {
+    const findings = report.findings.filter((finding) => finding.ruleId === ruleId);
+    const failures = findings.filter((finding) => isAtLeast(finding.level, failOn)).length;
+    const cases =
+      findings.length > 0
+        ? findings.map((finding) => testCase(ruleId, finding, isAtLeast(finding.level, failOn)))
+        : [`    <testcase classname="${escapeXml(ruleId)}" name="no findings"/>`];
+
+    totalTests += cases.length;
+    totalFailures += failures;
+
+    const name = escapeXml(`${report.tool.name}: ${ruleNames.get(ruleId) ?? ruleId}`);
+    return [
+      `  <testsuite name="${name}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0" timestamp="${report.createdAt}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.command)}" tests="${totalTests}" failures="${totalFailures}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function testCase(ruleId: string, finding: Finding, failed: boolean): string {
+  const location = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}` : '(project)';
+  const details = [
+    finding.message,
+    finding.snippet && `→ ${finding.snippet}`,
+    finding.suggestion && `Fix: ${finding.suggestion}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const open = `    <testcase classname="${escapeXml(ruleId)}" name="${escapeXml(location)}"${
+    finding.file ? ` file="${escapeXml(finding.file)}"` : ''
+  }>`;
+  const body = failed
+    ? `      <failure message="${escapeXml(finding.message)}" type="${finding.level}">${escapeXml(details)}</failure>`
+    : `      <system-out>${escapeXml(`[${finding.level}] ${details}`)}</system-out>`;
+
+  return [open, body, '    </testcase>'].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,176 @@
+// ============================================================================
+// Analysis Report Model
+// ============================================================================
+// Tool-agnostic report shared by /fsd-validate, /quality-check, /code-smell
+// and /validate-schema. Every analyzer emits this shape; the serializers in
+// this directory turn it into JSON, SARIF 2.1.0 or JUnit XML for CI.
+// ============================================================================
+
+/**
+ * Finding level (maps to SARIF `level`)
+ */
+export type FindingLevel = 'error' | 'warning' | 'note';
+
+/**
+ * Ordered from most to least severe
+ */
+export const FINDING_LEVELS: readonly FindingLevel[] = ['error', 'warning', 'note'];
+
+/**
+ * Tool that produced the report
+ */
+export interface ReportTool {
+  /** e.g. 'fsd-validate' */
+  name: string;
+  version?: string;
+  informationUri?: string;
+}
+
+/**
+ * Rule a finding refers to
+ */
+export interface ReportRule {
+  /** Stable identifier (e.g. 'layer-violation') */
+  id: string;
+  /** Human-readable title (e.g. 'Layer dependency violation') */
+  name: string;
+  description?: string;
+  helpUri?: string;
+}
+
+/**
+ * A single finding
+ */
+export interface Finding {
+  ruleId: string;
+  level: FindingLevel;
+  message: string;
+  /** Project-relative path (POSIX separators) */
+  file?: string;
+  /** 1-based line; omitted for file- or directory-level findings */
+  line?: number;
+  /** 1-based column */
+  column?: number;
+  /** Offending source line */
+  snippet?: string;
+  /** Suggested fix */
+  suggestion?: string;
+}
+
+/**
+ * Report emitted by an analyzer
+ */
+export interface AnalysisReport {
+  /** Report format version */
+  version: 1;
+  tool: ReportTool;
+  /** Slash command that ran the analysis (e.g. '/fsd-validate') */
+  command: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** Rules that were checked — including rules without findings */
+  rules: ReportRule[];
+  findings: Finding[];
+  /** Analyzer-specific numbers (e.g. filesScanned) */
+  metrics?: Record<string, number>;
+}
+
+/**
+ * Finding counts per level
+ */
+export interface ReportSummary {
+  total: number;
+  error: number;
+  warning: number;
+  note: number;
+}
+
+/**
+ * Thrown when a report does not match the model
+ */
+export class InvalidReportError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid report:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'InvalidReportError';
+  }
+}
+
+/**
+ * Create a report, stamping version and creation time
+ *
+ * @example
+ * ```typescript
+ * const report = createReport({
+ *   tool: { name: 'fsd-validate' },
+ *   command: '/fsd-validate',
+ *   rules: [{ id: 'layer-violation', name: 'Layer dependency violation' }],
+ *   findings,
+ * });
+ * ```
+ */
+export function createReport(
+  report: Omit<AnalysisReport, 'version' | 'createdAt'> & { createdAt?: string }
+): AnalysisReport {
+  return {
+    version: 1,
+    ...report,
+    createdAt: report.createdAt ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Count findings per level
+ */
+export function summarizeReport(report: AnalysisReport): ReportSummary {
+  const summary: ReportSummary = { total: report.findings.length, error: 0, warning: 0, note: 0 };
+  for (const finding of report.findings) summary[finding.level] += 1;
+  return summary;
+}
+
+/**
+ * Whether a finding is at least as severe as `threshold`
+ */
+export function isAtLeast(level: FindingLevel, threshold: FindingLevel): boolean {
+  return FINDING_LEVELS.indexOf(level) <= FINDING_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Validate untrusted JSON (e.g. a report written by a slash command) against the model
+ *
+ * @throws {InvalidReportError} When required fields are missing or mistyped
+ */
+export function parseReport(value: unknown): AnalysisReport {
+  const problems: string[] = [];
+  const report = value as Partial<AnalysisReport> | null;
+
+  if (typeof report !== 'object' || report === null) {
+    throw new InvalidReportError(['report must be an object']);
+  }
+  if (report.version !== 1) problems.push('version must be 1');
+  if (typeof report.tool?.name !== 'string') problems.push('tool.name must be a string');
+  if (typeof report.command !== 'string') problems.push('command must be a string');
+  if (!Array.isArray(report.rules)) problems.push('rules must be an array');
+  if (!Array.isArray(report.findings)) problems.push('findings must be an array');
+
+  report.rules?.forEach?.((rule, index) => {
+    if (typeof rule?.id !== 'string') problems.push(`rules[${index}].id must be a string`);
+    if (typeof rule?.name !== 'string') problems.push(`rules[${index}].name must be a string`);
+  });
+  report.findings?.forEach?.((finding, index) => {
+    if (typeof finding?.ruleId !== 'string') problems.push(`findings[${index}].ruleId must be a string`);
+    if (!FINDING_LEVELS.includes(finding?.level)) {
+      problems.push(`findings[${index}].level must be one of ${FINDING_LEVELS.join(', ')}`);
+    }
+    if (typeof finding?.message !== 'string') problems.push(`findings[${index}].message must be a string`);
+    if (finding?.line !== undefined && !(Number.isInteger(finding.line) && finding.line > 0)) {
+      problems.push(`findings[${index}].line must be a positive integer`);
+    }
+  });
+
+  if (problems.length > 0) throw new InvalidReportError(problems);
+
+  return {
+    ...(report as AnalysisReport),
+    createdAt: report.createdAt ?? new Date().toISOString(),
+  };
+}
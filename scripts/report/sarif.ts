@@ -0,0 +1,88 @@
+// ============================================================================
+// SARIF 2.1.0 Serializer
+// ============================================================================
+// Static Analysis Results Interchange Format, understood by GitHub code
+// scanning and most CI annotators. Paths are emitted relative to %SRCROOT%.
+// ============================================================================
+
+import type { AnalysisReport, Finding } from './model.ts';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Serialize a report as a SARIF 2.1.0 log with a single run
+ */
+export function toSarif(report: AnalysisReport): string {
+  const ruleIndex = new Map(report.rules.map((rule, index) => [rule.id, index]));
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: report.tool.name,
+            ...(report.tool.version && { version: report.tool.version }),
+            ...(report.tool.informationUri && { informationUri: report.tool.informationUri }),
+            rules: report.rules.map((rule) => ({
+              id: rule.id,
+              name: toPascalCase(rule.id),
+              shortDescription: { text: rule.name },
+              ...(rule.description && { fullDescription: { text: rule.description } }),
+              ...(rule.helpUri && { helpUri: rule.helpUri }),
+            })),
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: true,
+            endTimeUtc: report.createdAt,
+            properties: { command: report.command },
+          },
+        ],
+        results: report.findings.map((finding) => ({
+          ruleId: finding.ruleId,
+          ...(ruleIndex.has(finding.ruleId) && { ruleIndex: ruleIndex.get(finding.ruleId) }),
+          level: finding.level,
+          message: { text: messageText(finding) },
+          ...(finding.file && { locations: [physicalLocation(finding)] }),
+        })),
+        ...(report.metrics && { properties: { metrics: report.metrics } }),
+      },
+    ],
+  };
+
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function messageText(finding: Finding): string {
+  return finding.suggestion ? `${finding.message}\nFix: ${finding.suggestion}` : finding.message;
+}
+
+function physicalLocation(finding: Finding) {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: encodeURI(finding.file!), uriBaseId: '%SRCROOT%' },
+      ...(finding.line && {
+        region: {
+          startLine: finding.line,
+          ...(finding.column && { startColumn: finding.column }),
+          ...(finding.snippet && { snippet: { text: finding.snippet } }),
+        },
+      }),
+    },
+  };
+}
+
+function toPascalCase(id: string): string {
+  return id
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
@@ -7,6 +7,10 @@
 // Usage:
 //   Replace {{entityName}} with camelCase name (e.g., user, product)
 //   Replace {{EntityName}} with PascalCase name (e.g., User, Product)
+//   Replace {{entityNameKebab}} / {{entityNamesKebab}} with kebab-case singular /
+//   plural (e.g., order-item / order-items)
+//   Replace {{pagination}} / {{Pagination}} with the list endpoint's pagination
+//   style (offset / Offset, cursor / Cursor, keyset / Keyset)
 //
 // Generated structure:
 //   entities/{{entityName}}/
@@ -85,36 +89,22 @@ export type { {{EntityName}}, {{EntityName}}Dto, {{EntityName}}Filters } from '.
 // Hierarchical query key management for React Query cache invalidation
 // ============================================================================
 
-export const {{entityName}}Keys = {
-  /**
-   * Base key for all {{entityName}} queries
-   * Usage: queryClient.invalidateQueries({ queryKey: {{entityName}}Keys.all })
-   */
-  all: ['{{entityName}}'] as const,
-
-  /**
-   * Key for all {{entityName}} list queries
-   */
-  lists: () => [...{{entityName}}Keys.all, 'list'] as const,
-
-  /**
-   * Key for a specific {{entityName}} list with filters
-   * @param filters - Optional filters for the list
-   */
-  list: (filters?: Record<string, unknown>) =>
-    [...{{entityName}}Keys.lists(), { filters }] as const,
-
-  /**
-   * Key for all {{entityName}} detail queries
-   */
-  details: () => [...{{entityName}}Keys.all, 'detail'] as const,
+import { createQueryKeys, defineFilters } from '@/shared/api';
+import type { {{EntityName}}Filters } from '../model';
 
-  /**
-   * Key for a specific {{entityName}} detail by ID
-   * @param id - {{EntityName}} ID
-   */
-  detail: (id: string) => [...{{entityName}}Keys.details(), id] as const,
-};
+/**
+ * Keys built by shared/api/query-keys.ts:
+ * - all: ['{{entityName}}']
+ * - lists() / list(filters): ['{{entityName}}', 'list', { filters }] (empty filters dropped, keys sorted)
+ * - infinite(filters): ['{{entityName}}', 'list', 'infinite', { filters }]
+ * - details() / detail(id): ['{{entityName}}', 'detail', id]
+ *
+ * Usage: queryClient.invalidateQueries({ queryKey: {{entityName}}Keys.all })
+ */
+export const {{entityName}}Keys = createQueryKeys('{{entityName}}', {
+  // TODO: List array filters whose order does not matter: defineFilters<...>({ unordered: ['tags'] })
+  filters: defineFilters<{{EntityName}}Filters>(),
+});
 
 
 // ============================================================================
@@ -122,7 +112,7 @@ export const {{entityName}}Keys = {
 // API Functions - Pure functions for API calls
 // ============================================================================
 
-import { apiClient } from '@/shared/api';
+import { apiClient, mapPageItems, type {{Pagination}}Page, type {{Pagination}}Params } from '@/shared/api';
 import type { {{EntityName}}, {{EntityName}}Dto, {{EntityName}}Filters } from '../model';
 
 /**
@@ -156,22 +146,45 @@ export const {{entityName}}Api = {
   /**
    * Get all {{entityName}}s
    * @param filters - Optional filters
+   * @param signal - Aborts the request (pass React Query's queryFn signal)
    * @returns Promise<{{EntityName}}[]>
    */
-  async getAll(filters?: {{EntityName}}Filters): Promise<{{EntityName}}[]> {
-    const dtos = await apiClient.get<{{EntityName}}Dto[]>('api/{{entityName}}s', {
-      searchParams: filters,
+  async getAll(filters?: {{EntityName}}Filters, signal?: AbortSignal): Promise<{{EntityName}}[]> {
+    const dtos = await apiClient.get<{{EntityName}}Dto[]>('api/{{entityNamesKebab}}', {
+      searchParams: { ...filters },
+      signal,
     });
     return dtos.map(mapDtoToDomain);
   },
 
+  /**
+   * Get one page of {{entityName}}s ({{pagination}} pagination, see shared/api/pagination.ts)
+   * @param filters - Optional filters
+   * @param params - Page params built by {{entityName}}Queries.infinite
+   * @param signal - Aborts the request (pass React Query's queryFn signal)
+   * @returns Promise<{{Pagination}}Page<{{EntityName}}>>
+   */
+  async getPage(
+    filters: {{EntityName}}Filters | undefined,
+    params: {{Pagination}}Params,
+    signal?: AbortSignal
+  ): Promise<{{Pagination}}Page<{{EntityName}}>> {
+    // TODO: Map the backend's envelope and param names if they differ from {{Pagination}}Page / {{Pagination}}Params
+    const page = await apiClient.get<{{Pagination}}Page<{{EntityName}}Dto>>('api/{{entityNamesKebab}}', {
+      searchParams: { ...filters, ...params },
+      signal,
+    });
+    return mapPageItems(page, mapDtoToDomain);
+  },
+
   /**
    * Get {{entityName}} by ID
    * @param id - {{EntityName}} ID
+   * @param signal - Aborts the request (pass React Query's queryFn signal)
    * @returns Promise<{{EntityName}}>
    */
-  async getById(id: string): Promise<{{EntityName}}> {
-    const dto = await apiClient.get<{{EntityName}}Dto>(`api/{{entityName}}s/${id}`);
+  async getById(id: string, signal?: AbortSignal): Promise<{{EntityName}}> {
+    const dto = await apiClient.get<{{EntityName}}Dto>(`api/{{entityNamesKebab}}/${id}`, { signal });
     return mapDtoToDomain(dto);
   },
 
@@ -182,7 +195,7 @@ export const {{entityName}}Api = {
    */
   async create(data: Omit<{{EntityName}}, 'id' | 'createdAt' | 'updatedAt'>): Promise<{{EntityName}}> {
     const dto = mapDomainToDto(data);
-    const response = await apiClient.post<{{EntityName}}Dto>('api/{{entityName}}s', dto);
+    const response = await apiClient.post<{{EntityName}}Dto>('api/{{entityNamesKebab}}', dto);
     return mapDtoToDomain(response);
   },
 
@@ -194,7 +207,7 @@ export const {{entityName}}Api = {
    */
   async update(id: string, data: Partial<{{EntityName}}>): Promise<{{EntityName}}> {
     const dto = mapDomainToDto(data);
-    const response = await apiClient.patch<{{EntityName}}Dto>(`api/{{entityName}}s/${id}`, dto);
+    const response = await apiClient.patch<{{EntityName}}Dto>(`api/{{entityNamesKebab}}/${id}`, dto);
     return mapDtoToDomain(response);
   },
 
@@ -204,7 +217,7 @@ export const {{entityName}}Api = {
    * @returns Promise<void>
    */
   async delete(id: string): Promise<void> {
-    await apiClient.deleteNoContent(`api/{{entityName}}s/${id}`);
+    await apiClient.deleteNoContent(`api/{{entityNamesKebab}}/${id}`);
   },
 };
 
@@ -216,8 +229,9 @@ export const {{entityName}}Api = {
 // ============================================================================
 
 import { queryOptions } from '@tanstack/react-query';
-import { {{entityName}}Api } from './{{entityName}}.api';
-import { {{entityName}}Keys } from './{{entityName}}.keys';
+import { {{pagination}}InfiniteOptions } from '@/shared/api';
+import { {{entityName}}Api } from './{{entityNameKebab}}.api';
+import { {{entityName}}Keys } from './{{entityNameKebab}}.keys';
 import type { {{EntityName}}Filters } from '../model';
 
 /**
@@ -237,10 +251,24 @@ export const {{entityName}}Queries = {
   all: (filters?: {{EntityName}}Filters) =>
     queryOptions({
       queryKey: {{entityName}}Keys.list(filters),
-      queryFn: () => {{entityName}}Api.getAll(filters),
+      queryFn: ({ signal }) => {{entityName}}Api.getAll(filters, signal),
       staleTime: 1000 * 60 * 5, // 5 minutes
     }),
 
+  /**
+   * Infinite query for {{entityName}} lists ({{pagination}} pagination)
+   * @param filters - Optional filters
+   */
+  infinite: (filters?: {{EntityName}}Filters) => ({
+    ...{{pagination}}InfiniteOptions({
+      queryKey: {{entityName}}Keys.infinite(filters),
+      fetchPage: (params, signal) => {{entityName}}Api.getPage(filters, params, signal),
+      // pageSize: 20,
+      // maxPages: 10, // Keep at most 10 pages while scrolling
+    }),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  }),
+
   /**
    * Query for a single {{entityName}} by ID
    * @param id - {{EntityName}} ID
@@ -248,7 +276,7 @@ export const {{entityName}}Queries = {
   detail: (id: string) =>
     queryOptions({
       queryKey: {{entityName}}Keys.detail(id),
-      queryFn: () => {{entityName}}Api.getById(id),
+      queryFn: ({ signal }) => {{entityName}}Api.getById(id, signal),
       staleTime: 1000 * 60 * 5, // 5 minutes
     }),
 };
@@ -259,9 +287,9 @@ export const {{entityName}}Queries = {
 // API public exports
 // ============================================================================
 
-export { {{entityName}}Queries } from './{{entityName}}.queries';
-export { {{entityName}}Keys } from './{{entityName}}.keys';
-export { {{entityName}}Api } from './{{entityName}}.api';
+export { {{entityName}}Queries } from './{{entityNameKebab}}.queries';
+export { {{entityName}}Keys } from './{{entityNameKebab}}.keys';
+export { {{entityName}}Api } from './{{entityNameKebab}}.api';
 
 
 // ============================================================================
@@ -287,7 +315,7 @@ export function {{EntityName}}Card({ {{entityName}}, onClick }: {{EntityName}}Ca
 
   return (
     <div
-      className="{{entityName}}-card"
+      className="{{entityNameKebab}}-card"
       onClick={handleClick}
       style={{
         border: '1px solid #ddd',
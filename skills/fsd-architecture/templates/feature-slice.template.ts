@@ -95,7 +95,7 @@ import type { {{FeatureName}}Params, {{FeatureName}}Result } from '../model';
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { mutate, isPending } = use{{FeatureName}}();
+ *   const { mutate, isPending, error } = use{{FeatureName}}();
  *
  *   const handleSubmit = (data: {{FeatureName}}Params) => {
  *     mutate(data, {
@@ -108,7 +108,8 @@ import type { {{FeatureName}}Params, {{FeatureName}}Result } from '../model';
  *     });
  *   };
  *
- *   return <{{FeatureName}}Form onSubmit={handleSubmit} isLoading={isPending} />;
+ *   // Server-side field errors (422 problem+json) show next to their inputs
+ *   return <{{FeatureName}}Form onSubmit={handleSubmit} isLoading={isPending} error={error} />;
  * }
  * ```
  */
@@ -192,28 +193,36 @@ export { use{{FeatureName}} } from './use{{FeatureName}}';
 // ============================================================================
 
 import { useState } from 'react';
+import { getFieldErrors } from '@/shared/api';
 import type { {{FeatureName}}Params, {{FeatureName}}FormState } from '../model';
 
 interface {{FeatureName}}FormProps {
   onSubmit: (data: {{FeatureName}}Params) => void;
   isLoading?: boolean;
   initialValues?: Partial<{{FeatureName}}Params>;
+  /** Error of the last submit; its field errors show next to the inputs */
+  error?: unknown;
 }
 
 /**
  * {{FeatureName}}Form component
  *
  * Form for {{featureName}} operation with validation and error handling.
+ * Client-side errors come first; server-side field errors (RFC 7807
+ * `errors` of the failed mutation) fill in the rest.
  */
 export function {{FeatureName}}Form({
   onSubmit,
   isLoading = false,
   initialValues = {},
+  error,
 }: {{FeatureName}}FormProps) {
   const [formState, setFormState] = useState<{{FeatureName}}FormState>({
     isSubmitting: false,
     errors: {},
   });
+  const serverErrors = getFieldErrors(error);
+  const fieldError = (name: string) => formState.errors[name] ?? serverErrors[name]?.join(' ');
 
   // TODO: Add form fields state
   // const [fieldName, setFieldName] = useState(initialValues.fieldName ?? '');
@@ -259,8 +268,8 @@ export function {{FeatureName}}Form({
           onChange={(e) => setFieldName(e.target.value)}
           disabled={isLoading}
         />
-        {formState.errors.fieldName && (
-          <span className="error">{formState.errors.fieldName}</span>
+        {fieldError('fieldName') && (
+          <span className="error">{fieldError('fieldName')}</span>
         )}
       </div>
       */}
@@ -314,7 +323,7 @@ function {{FeatureName}}Page() {
       {isSuccess && <div className="success">Operation completed!</div>}
       {isError && <div className="error">Error: {error?.message}</div>}
 
-      <{{FeatureName}}Form onSubmit={handleSubmit} isLoading={isPending} />
+      <{{FeatureName}}Form onSubmit={handleSubmit} isLoading={isPending} error={error} />
     </div>
   );
 }
@@ -326,6 +335,7 @@ function {{FeatureName}}Page() {
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { setServerErrors } from '@/shared/api';
 import { use{{FeatureName}} } from '@/features/{{featureName}}';
 
 const schema = z.object({
@@ -339,6 +349,7 @@ function {{FeatureName}}FormWithRHF() {
 
   const {
     register,
+    setError,
     handleSubmit,
     formState: { errors },
   } = useForm<FormData>({
@@ -346,12 +357,17 @@ function {{FeatureName}}FormWithRHF() {
   });
 
   const onSubmit = (data: FormData) => {
-    mutate(data);
+    mutate(data, {
+      // Server-side validation (problem+json `errors`) → errors.<field>,
+      // anything else → errors.root.server
+      onError: (error) => setServerErrors(error, setError),
+    });
   };
 
   return (
     <form onSubmit={handleSubmit(onSubmit)}>
       {/* Form fields */}
+      {errors.root?.server && <div className="error">{errors.root.server.message}</div>}
       <button type="submit" disabled={isPending}>
         Submit
       </button>
@@ -8,6 +8,42 @@
 // ============================================================================
 
 import ky, { type KyInstance, type Options, type BeforeRequestHook, type AfterResponseHook } from 'ky';
+import type { z } from 'zod';
+import {
+  createHttpError,
+  normalizeError,
+  parseProblemDetails,
+  UnauthorizedError,
+  ValidationError,
+  type ApiError,
+} from './errors';
+import {
+  createIdempotencyKey,
+  idempotencyKeyHeader,
+  resolveRetryPolicy,
+  retryDelay,
+  type RetryMethod,
+  type RetryPolicy,
+} from './retry';
+import { authMiddleware, loggingMiddleware, type ApiMiddleware, type RequestContext } from './middleware';
+import type { RequestLane } from './rate-limiter';
+import { createLocalStorageTokenStore, type TokenStore } from './token-store';
+
+/**
+ * Obtains a new access token when a request is rejected with 401
+ *
+ * `http` is a bare ky instance (same prefixUrl, no middlewares), so the refresh
+ * call itself can never trigger another refresh. Resolve `null` (or throw)
+ * when the session cannot be renewed.
+ */
+export type RefreshTokenStrategy = (http: KyInstance) => Promise<string | null>;
+
+/**
+ * What to do when a response does not match its schema
+ * - strict: throw ValidationError
+ * - log: log the issues and return the unvalidated data
+ */
+export type ResponseValidationMode = 'strict' | 'log';
 
 /**
  * API Client configuration options
@@ -17,36 +53,82 @@ export interface ApiClientConfig {
   timeout?: number;
   headers?: Record<string, string>;
   credentials?: RequestCredentials;
-  retry?: number;
+  /**
+   * Retry policy, or a retry count (default: 2 retries of idempotent methods,
+   * see shared/api/retry.ts)
+   */
+  retry?: number | RetryPolicy;
+  /** Renew the access token on 401 and replay the request (default: none, 401 logs out) */
+  refreshToken?: RefreshTokenStrategy;
+  /** Where the access token lives (default: localStorage, see shared/api/token-store.ts) */
+  tokenStore?: TokenStore;
+  /** Schema mismatch handling (default: strict in development, log in production) */
+  validation?: ResponseValidationMode;
+  /**
+   * Share one request between identical GETs in flight at the same time
+   * (default: false). React Query already dedupes queries; this covers calls
+   * outside it, e.g. route loaders.
+   */
+  dedupe?: boolean;
 }
 
 /**
- * API Error with additional context
+ * Request options: ky options with ApiClient's retry policy in place of ky's
  */
-export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public code?: string,
-    public data?: unknown
-  ) {
-    super(message);
-    this.name = 'ApiError';
-  }
+export interface RequestOptions extends Omit<Options, 'retry'> {
+  /** Override the client's retry policy for this request (0 = no retries) */
+  retry?: number | RetryPolicy;
+  /** Rate limiter lane (default: 'user'; use 'prefetch' for speculative requests, see rateLimitMiddleware) */
+  lane?: RequestLane;
 }
 
+/**
+ * GET options: request options plus per-request deduplication
+ */
+export interface GetOptions extends RequestOptions {
+  /** Override `ApiClientConfig.dedupe` for this request */
+  dedupe?: boolean;
+}
+
+/**
+ * GET shared by every caller that asked for the same URL while it was in flight
+ */
+interface SharedRequest {
+  response: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when the last one leaves */
+  callers: number;
+}
+
+/**
+ * Context flag of a request replayed after a token refresh
+ */
+const AUTH_REPLAY = 'authReplay';
+
+/**
+ * ky context entry carrying the RequestContext of the middleware pipeline
+ */
+const MIDDLEWARE_CONTEXT = 'middleware';
+
 /**
  * Production-ready API Client using ky
  *
  * Features:
  * - Automatic authentication token injection
- * - Request/response hooks
- * - Error handling and transformation
- * - Type-safe methods
+ * - Token refresh: concurrent 401s share one refresh, then replay
+ * - Pluggable token storage with cross-tab logout
+ * - Middleware pipeline (`use()`): auth, logging, tracing, locale, timing, rate limiting
+ * - Typed errors (shared/api/errors.ts): every failure is an ApiError subclass
+ * - RFC 7807 problem details with field errors on HttpError
+ * - Type-safe methods, optionally validated with a Zod schema
+ * - Cancellation through `signal` (React Query's queryFn signal), optional GET dedupe
  * - Automatic JSON parsing
- * - Built-in retry logic
+ * - Retry policy: backoff with jitter, Retry-After, idempotency keys
  * - Logging (dev mode only)
  *
+ * Auth (token store) and, in development, logging middlewares are installed
+ * by the constructor; `use()` appends more (see shared/api/middleware.ts).
+ *
  * @example
  * ```typescript
  * // shared/api/client.ts
@@ -56,78 +138,188 @@ export class ApiError extends Error {
  *
  * // entities/user/api/user.api.ts
  * export const userApi = {
- *   async getAll() {
- *     return await apiClient.get<User[]>('users');
+ *   // Forward React Query's signal so abandoned queries abort their request
+ *   async getAll(signal?: AbortSignal) {
+ *     return await apiClient.get<User[]>('users', { signal });
+ *   },
+ *   // Parsed and validated: a changed backend fails here, not in the UI
+ *   async getById(id: string) {
+ *     return await apiClient.get(`users/${id}`, userSchema);
  *   },
  * };
  * ```
  */
 export class ApiClient {
   private client: KyInstance;
+  private refreshClient: KyInstance;
+  private refreshStrategy?: RefreshTokenStrategy;
+  private tokenStore: TokenStore;
+  private validation: ResponseValidationMode;
+  private retryPolicy: Required<RetryPolicy>;
+  private middleware: ApiMiddleware[] = [];
+  /** In-flight token refresh shared by every request that hit a 401 */
+  private refreshing: Promise<string | null> | null = null;
+  private dedupe: boolean;
+  /** Deduplicated GETs in flight, by URL and search params */
+  private inflight = new Map<string, SharedRequest>();
 
   constructor(config: ApiClientConfig) {
+    this.refreshStrategy = config.refreshToken;
+    this.tokenStore = config.tokenStore ?? createLocalStorageTokenStore();
+    this.validation = config.validation ?? (import.meta.env.DEV ? 'strict' : 'log');
+    this.dedupe = config.dedupe ?? false;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    // Logged out in another tab: log out here too
+    this.tokenStore.subscribe?.((token) => {
+      if (token === null) this.handleUnauthorized();
+    });
+    this.refreshClient = ky.create({
+      prefixUrl: config.prefixUrl,
+      timeout: config.timeout || 30000,
+      credentials: config.credentials ?? 'same-origin',
+      retry: 0,
+    });
     this.client = ky.create({
       prefixUrl: config.prefixUrl,
       timeout: config.timeout || 30000, // 30 seconds default
       credentials: config.credentials ?? 'same-origin',
-      retry: config.retry ?? 1,
+      // Retries are made by send() (see shared/api/retry.ts), never by ky
+      retry: 0,
       headers: {
         'Content-Type': 'application/json',
         ...config.headers,
       },
       hooks: {
-        beforeRequest: [this.beforeRequestHook.bind(this)],
-        afterResponse: [this.afterResponseHook.bind(this)],
+        beforeRequest: [this.beforeRequestHook],
+        afterResponse: [this.afterResponseHook],
       },
     });
+
+    this.use(authMiddleware(() => this.getAuthToken()));
+    if (import.meta.env.DEV) {
+      this.use(loggingMiddleware());
+    }
   }
 
   /**
-   * Before request hook - adds authentication and logging
+   * Add a middleware after the ones already registered
+   *
+   * @example
+   * ```typescript
+   * apiClient.use(traceparentMiddleware()).use(localeMiddleware(() => i18n.language));
+   * ```
    */
-  private beforeRequestHook: BeforeRequestHook = (request) => {
-    // Add authentication token
-    const token = this.getAuthToken();
-    if (token) {
-      request.headers.set('Authorization', `Bearer ${token}`);
+  use(middleware: ApiMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Before request hook - runs the request phase of the middlewares
+   */
+  private beforeRequestHook: BeforeRequestHook = async (request, options) => {
+    // Wait for a running refresh instead of sending a token that is being replaced
+    // (an aborted request stops waiting)
+    if (this.refreshing) {
+      await abortable(this.refreshing, request.signal);
     }
 
-    // Log request in development
-    if (import.meta.env.DEV) {
-      console.log(`[API Request] ${request.method} ${request.url}`);
+    const context = options.context[MIDDLEWARE_CONTEXT] as RequestContext;
+    let current: Request = request;
+    for (const middleware of this.middleware) {
+      current = (await middleware.onRequest?.(current, context)) ?? current;
     }
+
+    return current === request ? undefined : current;
   };
 
   /**
-   * After response hook - handles logging and errors
+   * After response hook - runs the response phase of the middlewares, then
+   * handles 401 and errors
    */
   private afterResponseHook: AfterResponseHook = async (request, options, response) => {
-    // Log response in development
-    if (import.meta.env.DEV) {
-      console.log(`[API Response] ${request.url}`, {
-        status: response.status,
-      });
+    const context = options.context[MIDDLEWARE_CONTEXT] as RequestContext;
+    let current = response;
+    for (const middleware of [...this.middleware].reverse()) {
+      current = (await middleware.onResponse?.(current, request, context)) ?? current;
+    }
+
+    // Renew the token once and replay (a replayed request is never refreshed again)
+    if (current.status === 401 && this.refreshStrategy && !options.context[AUTH_REPLAY]) {
+      return this.refreshAndReplay(request, options.context);
     }
 
     // Handle error responses
-    if (!response.ok) {
-      await this.handleError(response);
+    if (!current.ok) {
+      await this.handleError(current);
     }
 
-    return response;
+    return current;
   };
 
   /**
-   * Get authentication token from storage
+   * Replay a request rejected with 401 using a fresh token
+   */
+  private async refreshAndReplay(request: Request, context: Record<string, unknown>): Promise<Response> {
+    const current = this.getAuthToken();
+    // Sent before another request finished refreshing: just replay with the new token
+    const token =
+      current && request.headers.get('Authorization') !== `Bearer ${current}`
+        ? current
+        : await this.refreshAccessToken();
+
+    if (!token) {
+      throw new UnauthorizedError('Session expired', 'REFRESH_FAILED');
+    }
+
+    // The middlewares run again and set the new token
+    return this.client(request, { context: { ...context, [AUTH_REPLAY]: true } });
+  }
+
+  /**
+   * Refresh the access token once, however many requests ask at the same time.
+   * Only a failed refresh logs the user out.
+   */
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshing) {
+      const refresh = (async () => {
+        try {
+          const token = await this.refreshStrategy!(this.refreshClient);
+          if (token) {
+            this.setAuthToken(token);
+            return token;
+          }
+        } catch (error) {
+          console.error('[API] Token refresh failed', error);
+        }
+
+        this.handleUnauthorized();
+        return null;
+      })();
+
+      // Cleared only once stored: a strategy that throws synchronously settles
+      // the refresh before this line runs
+      this.refreshing = refresh.finally(() => {
+        this.refreshing = null;
+      });
+    }
+
+    return this.refreshing;
+  }
+
+  /**
+   * Get authentication token from the token store
    * Override this method to customize token retrieval
    */
   protected getAuthToken(): string | null {
-    // TODO: Customize based on your auth implementation
-    return localStorage.getItem('auth_token');
+    return this.tokenStore.get();
   }
 
   /**
    * Handle API errors
+   *
+   * `application/problem+json` bodies (RFC 7807) end up in `error.problem`;
+   * their detail / title become the message.
    */
   private async handleError(response: Response): Promise<never> {
     const status = response.status;
@@ -144,7 +336,7 @@ export class ApiClient {
     // Handle specific status codes
     switch (status) {
       case 401:
-        // Unauthorized - clear auth and redirect to login
+        // Unauthorized without a refresh strategy, or still 401 after refreshing
         this.handleUnauthorized();
         break;
       case 403:
@@ -161,12 +353,10 @@ export class ApiClient {
         break;
     }
 
-    throw new ApiError(
-      data?.message || response.statusText || 'An error occurred',
-      status,
-      data?.code,
-      data
-    );
+    const problem = parseProblemDetails(data);
+    const message = data?.message || problem?.detail || problem?.title || response.statusText || 'An error occurred';
+
+    throw createHttpError(status, message, data?.code, data, { headers: response.headers });
   }
 
   /**
@@ -176,7 +366,7 @@ export class ApiClient {
   protected handleUnauthorized() {
     // TODO: Customize based on your auth flow
     console.warn('[API] Unauthorized - clearing auth');
-    localStorage.removeItem('auth_token');
+    this.tokenStore.clear();
 
     // Redirect to login (adjust based on your routing setup)
     if (typeof window !== 'undefined') {
@@ -186,61 +376,272 @@ export class ApiClient {
 
   /**
    * GET request
+   *
+   * Pass `signal` to cancel it; with `dedupe`, identical GETs in flight share
+   * one request, which is aborted once every caller has cancelled.
+   */
+  async get<S extends z.ZodType>(url: string, schema: S, options?: GetOptions): Promise<z.output<S>>;
+  async get<T = any>(url: string, options?: GetOptions): Promise<T>;
+  async get(url: string, schemaOrOptions?: z.ZodType | GetOptions, options?: GetOptions): Promise<unknown> {
+    const [schema, getOptions] = isSchema(schemaOrOptions) ? [schemaOrOptions, options] : [undefined, schemaOrOptions];
+    const { dedupe = this.dedupe, ...requestOptions } = getOptions ?? {};
+
+    return this.send('GET', url, schema, requestOptions, (kyOptions, lane) => {
+      const key = dedupe ? dedupeKey(url, kyOptions) : null;
+      return key ? this.sharedGet(key, url, kyOptions, lane) : this.call('GET', url, kyOptions, lane);
+    });
+  }
+
+  /**
+   * Join the in-flight GET for `key`, or start it
    */
-  async get<T = any>(url: string, options?: Options): Promise<T> {
-    return this.client.get(url, options).json<T>();
+  private sharedGet(key: string, url: string, options: Options, lane: RequestLane): Promise<unknown> {
+    const { signal, ...rest } = options;
+    signal?.throwIfAborted();
+
+    let shared = this.inflight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const response = this.call('GET', url, { ...rest, signal: controller.signal }, lane);
+      const entry: SharedRequest = { response, controller, callers: 0 };
+      const settle = () => {
+        if (this.inflight.get(key) === entry) this.inflight.delete(key);
+      };
+      response.then(settle, settle);
+      this.inflight.set(key, entry);
+      shared = entry;
+    }
+
+    const joined = shared;
+    joined.callers++;
+    return abortable(joined.response, signal, () => {
+      joined.callers--;
+      if (joined.callers === 0) {
+        this.inflight.delete(key);
+        joined.controller.abort(signal?.reason);
+      }
+    });
   }
 
   /**
    * POST request
    */
-  async post<T = any>(url: string, data?: any, options?: Options): Promise<T> {
-    return this.client.post(url, { ...options, json: data }).json<T>();
+  async post<S extends z.ZodType>(url: string, schema: S, data?: unknown, options?: RequestOptions): Promise<z.output<S>>;
+  async post<T = any>(url: string, data?: any, options?: RequestOptions): Promise<T>;
+  async post(url: string, ...args: unknown[]): Promise<unknown> {
+    const { schema, data, options } = bodyArguments(args);
+    return this.send('POST', url, schema, options, (kyOptions, lane) => this.call('POST', url, { ...kyOptions, json: data }, lane));
   }
 
   /**
    * PUT request
    */
-  async put<T = any>(url: string, data?: any, options?: Options): Promise<T> {
-    return this.client.put(url, { ...options, json: data }).json<T>();
+  async put<S extends z.ZodType>(url: string, schema: S, data?: unknown, options?: RequestOptions): Promise<z.output<S>>;
+  async put<T = any>(url: string, data?: any, options?: RequestOptions): Promise<T>;
+  async put(url: string, ...args: unknown[]): Promise<unknown> {
+    const { schema, data, options } = bodyArguments(args);
+    return this.send('PUT', url, schema, options, (kyOptions, lane) => this.call('PUT', url, { ...kyOptions, json: data }, lane));
   }
 
   /**
    * PATCH request
    */
-  async patch<T = any>(url: string, data?: any, options?: Options): Promise<T> {
-    return this.client.patch(url, { ...options, json: data }).json<T>();
+  async patch<S extends z.ZodType>(url: string, schema: S, data?: unknown, options?: RequestOptions): Promise<z.output<S>>;
+  async patch<T = any>(url: string, data?: any, options?: RequestOptions): Promise<T>;
+  async patch(url: string, ...args: unknown[]): Promise<unknown> {
+    const { schema, data, options } = bodyArguments(args);
+    return this.send('PATCH', url, schema, options, (kyOptions, lane) =>
+      this.call('PATCH', url, { ...kyOptions, json: data }, lane)
+    );
   }
 
   /**
    * DELETE request
    */
-  async delete<T = any>(url: string, options?: Options): Promise<T> {
-    return this.client.delete(url, options).json<T>();
+  async delete<S extends z.ZodType>(url: string, schema: S, options?: RequestOptions): Promise<z.output<S>>;
+  async delete<T = any>(url: string, options?: RequestOptions): Promise<T>;
+  async delete(url: string, schemaOrOptions?: z.ZodType | RequestOptions, options?: RequestOptions): Promise<unknown> {
+    const [schema, requestOptions] = isSchema(schemaOrOptions) ? [schemaOrOptions, options] : [undefined, schemaOrOptions];
+    return this.send('DELETE', url, schema, requestOptions, (kyOptions, lane) => this.call('DELETE', url, kyOptions, lane));
   }
 
   /**
    * DELETE request without response body
    */
-  async deleteNoContent(url: string, options?: Options): Promise<void> {
-    await this.client.delete(url, options);
+  async deleteNoContent(url: string, options?: RequestOptions): Promise<void> {
+    await this.send('DELETE', url, undefined, options, (kyOptions, lane) =>
+      this.call('DELETE', url, kyOptions, lane, false)
+    );
+  }
+
+  /**
+   * One attempt of a request through the middleware pipeline
+   */
+  private async call(method: RetryMethod, url: string, options: Options, lane: RequestLane, json = true): Promise<unknown> {
+    const context: RequestContext = { method, url, lane };
+    try {
+      const response = this.client(url, { ...options, method, context: { ...options.context, [MIDDLEWARE_CONTEXT]: context } });
+      return await (json ? response.json() : response);
+    } catch (thrown) {
+      let error = normalizeError(thrown);
+      for (const middleware of [...this.middleware].reverse()) {
+        error = (await middleware.onError?.(error, context)) ?? error;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a request under the retry policy, map failures into the ApiError
+   * hierarchy and validate the response body against its schema (when one
+   * was given)
+   */
+  private async send(
+    method: RetryMethod,
+    url: string,
+    schema: z.ZodType | undefined,
+    options: RequestOptions = {},
+    request: (options: Options, lane: RequestLane) => Promise<unknown>
+  ): Promise<unknown> {
+    const endpoint = `${method} ${url}`;
+    const { retry, lane = 'user', ...kyOptions } = options;
+    const policy = retry === undefined ? this.retryPolicy : resolveRetryPolicy(retry, this.retryPolicy);
+
+    // One key for every attempt, so the server can tell a retry from a new request
+    const keyHeader = idempotencyKeyHeader(policy, method);
+    if (keyHeader) {
+      const headers = new Headers(kyOptions.headers as HeadersInit | undefined);
+      if (!headers.has(keyHeader)) headers.set(keyHeader, createIdempotencyKey());
+      kyOptions.headers = headers;
+    }
+
+    let data: unknown;
+    for (let attempt = 1; ; attempt++) {
+      let error: ApiError;
+      try {
+        data = await request(kyOptions, lane);
+        break;
+      } catch (thrown) {
+        error = normalizeError(thrown);
+      }
+
+      const delay = retryDelay(policy, method, error, attempt);
+      if (delay === null) {
+        error.attempts = attempt;
+        throw error;
+      }
+
+      if (import.meta.env.DEV) {
+        console.warn(`[API Retry] ${endpoint} in ${Math.round(delay)}ms (${error.message})`);
+      }
+      try {
+        await sleep(delay, kyOptions.signal);
+      } catch (thrown) {
+        const aborted = normalizeError(thrown);
+        aborted.attempts = attempt;
+        throw aborted;
+      }
+    }
+
+    if (!schema) {
+      return data;
+    }
+
+    const result = await schema.safeParseAsync(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    if (this.validation === 'strict') {
+      throw new ValidationError(endpoint, result.error.issues, data);
+    }
+
+    console.error(`[API Validation] ${endpoint}`, result.error.issues);
+    return data;
   }
 
   /**
    * Set authentication token
    */
   setAuthToken(token: string) {
-    localStorage.setItem('auth_token', token);
+    this.tokenStore.set(token);
   }
 
   /**
-   * Clear authentication token
+   * Clear authentication token (other tabs sharing the store log out too)
    */
   clearAuthToken() {
-    localStorage.removeItem('auth_token');
+    this.tokenStore.clear();
   }
 }
 
+/**
+ * Settle with `promise`, or reject with the abort reason as soon as `signal`
+ * aborts (calling `onAbort` first)
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | null | undefined, onAbort?: () => void): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * Wait `ms`, or reject with the abort reason as soon as `signal` aborts
+ */
+function sleep(ms: number, signal: AbortSignal | null | undefined): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const wait = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, ms);
+  });
+  return abortable(wait, signal, () => clearTimeout(timer));
+}
+
+/**
+ * Dedupe key of a GET (URL + sorted search params), or `null` when other
+ * options (headers, hooks, ...) could make identical URLs differ
+ */
+function dedupeKey(url: string, options: Options): string | null {
+  if (Object.keys(options).some((option) => option !== 'searchParams' && option !== 'signal')) return null;
+
+  const { searchParams } = options;
+  const entries =
+    searchParams && typeof searchParams === 'object' && !(searchParams instanceof URLSearchParams) && !Array.isArray(searchParams)
+      ? Object.entries(searchParams)
+          .filter(([, value]) => value !== undefined)
+          .map(([name, value]) => [name, String(value)])
+      : searchParams;
+  const query = new URLSearchParams(entries as ConstructorParameters<typeof URLSearchParams>[0]);
+  query.sort();
+
+  return `${url}?${query}`;
+}
+
+function isSchema(value: unknown): value is z.ZodType {
+  return typeof (value as z.ZodType | undefined)?.safeParseAsync === 'function';
+}
+
+/**
+ * Split `(schema, data, options)` / `(data, options)` arguments of body methods
+ */
+function bodyArguments(args: unknown[]): { schema?: z.ZodType; data?: unknown; options?: RequestOptions } {
+  const [first, second, third] = args;
+  return isSchema(first)
+    ? { schema: first, data: second, options: third as RequestOptions | undefined }
+    : { data: first, options: second as RequestOptions | undefined };
+}
+
 /**
  * Default API client instance
  */
@@ -325,21 +726,21 @@ export const fileApi = {
 
 // Example 4: Custom error handling
 
+import { ForbiddenError, isApiError, isNetworkError, NotFoundError } from '@/shared/api';
+
 async function handleApiCall<T>(apiCall: () => Promise<T>): Promise<T | null> {
   try {
     return await apiCall();
   } catch (error) {
-    if (error instanceof ApiError) {
-      switch (error.status) {
-        case 404:
-          toast.error('Resource not found');
-          break;
-        case 403:
-          toast.error('You don\'t have permission');
-          break;
-        default:
-          toast.error(error.message);
-      }
+    // Every ApiClient failure is an ApiError subclass (see shared/api/errors.ts)
+    if (error instanceof NotFoundError) {
+      toast.error('Resource not found');
+    } else if (error instanceof ForbiddenError) {
+      toast.error('You don\'t have permission');
+    } else if (isNetworkError(error)) {
+      toast.error('You are offline');
+    } else if (isApiError(error)) {
+      toast.error(error.message);
     } else {
       toast.error('An unexpected error occurred');
     }
@@ -377,14 +778,96 @@ export const authApi = {
     await apiClient.post('auth/logout');
     apiClient.clearAuthToken();
   },
+};
 
-  async refreshToken(): Promise<string> {
-    const data = await apiClient.post<{ token: string }>('auth/refresh');
-    apiClient.setAuthToken(data.token);
+// ============================================================================
+
+// Example 6: Token refresh
+
+// shared/api/client.ts
+// The refresh token lives in an httpOnly cookie; `http` has no auth hooks
+export const apiClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_API_BASE_URL,
+  credentials: 'include',
+  refreshToken: async (http) => {
+    const data = await http.post('auth/refresh').json<{ token: string }>();
     return data.token;
   },
+});
+
+// Three queries hit 401 at once → one POST auth/refresh → all three replay
+// with the new token. Requests started during the refresh wait for it.
+// Only when the refresh fails (null / throws / replay still 401) does
+// handleUnauthorized() clear the token and redirect to /login.
+
+// ============================================================================
+
+// Example 7: Token storage
+
+// shared/api/client.ts
+import { createMemoryTokenStore, createCookieTokenStore, withBroadcastSync } from './token-store';
+
+// SSR / web worker: nothing touches window
+new ApiClient({ prefixUrl, tokenStore: createMemoryTokenStore() });
+
+// Cookie-based app: logout in one tab logs out every tab (BroadcastChannel)
+new ApiClient({ prefixUrl, tokenStore: withBroadcastSync(createCookieTokenStore({ maxAge: 60 * 60 })) });
+
+// Default (localStorage): other tabs follow through `storage` events
+
+// ============================================================================
+
+// Example 8: Validated responses (Zod)
+
+// entities/user/api/user.api.ts
+import { userSchema } from '../model/schema'; // DTO schema with .transform() to the domain model
+
+export const userApi = {
+  // Returns z.output<typeof userSchema> (User): parsed and transformed
+  async getById(id: string): Promise<User> {
+    return apiClient.get(`users/${id}`, userSchema);
+  },
+
+  async getAll(): Promise<User[]> {
+    return apiClient.get('users', z.array(userSchema));
+  },
+
+  // Schema first, then the body
+  async update(id: string, data: UpdateUserDto): Promise<User> {
+    return apiClient.patch(`users/${id}`, userSchema, data);
+  },
 };
 
+// Development: a mismatch throws
+//   ValidationError: Invalid response from GET users/1: id: Invalid input: expected number, received string
+//   error.endpoint === 'GET users/1', error.issues = Zod issues
+// Production (validation: 'log'): the issues are logged and the raw data is returned
+
+// ============================================================================
+
+// Example 9: Cancellation and deduplication
+
+// entities/user/api/user.queries.ts
+// React Query aborts `signal` when the query is cancelled or its component
+// unmounts before the response arrives
+export const userQueries = {
+  detail: (id: string) =>
+    queryOptions({
+      queryKey: userKeys.detail(id),
+      queryFn: ({ signal }) => userApi.getById(id, signal), // → apiClient.get(url, { signal })
+    }),
+};
+
+// shared/api/client.ts
+export const apiClient = new ApiClient({ prefixUrl, dedupe: true });
+
+// app/router.ts: two loaders asking for the same user → one GET users/1
+loader: ({ params, request }) => userApi.getById(params.id, request.signal),
+
+// The shared request is aborted only when every caller has aborted.
+// Opt out per request with `apiClient.get(url, { dedupe: false })`; requests
+// with custom headers or hooks are never shared.
+
 */
 
 // ============================================================================
@@ -392,86 +875,48 @@ export const authApi = {
 // ============================================================================
 
 /*
-// Pattern 1: Custom API client for specific domain
+// Pattern 1: Client per backend, composed with middlewares (see shared/api/middleware.ts)
 
-export class UserApiClient extends ApiClient {
-  constructor() {
-    super({
-      prefixUrl: import.meta.env.VITE_USER_API_BASE_URL,
-    });
-  }
+// No subclass: configure an instance and add what it needs
+export const userApiClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_USER_API_BASE_URL,
+})
+  .use(traceparentMiddleware())
+  .use(localeMiddleware(() => i18n.language));
 
-  // Add user-specific methods
+// Domain methods belong in the entity API (entities/user/api/user.api.ts)
+export const userApi = {
   async getCurrentUser(): Promise<User> {
-    const dto = await this.get<UserDto>('me');
+    const dto = await userApiClient.get<UserDto>('me');
     return mapDtoToDomain(dto);
-  }
-}
-
-export const userApiClient = new UserApiClient();
+  },
+};
 
 // ============================================================================
 
-// Pattern 2: Request queue for rate limiting
-
-class RateLimitedApiClient extends ApiClient {
-  private queue: Array<() => Promise<any>> = [];
-  private isProcessing = false;
-  private requestsPerSecond = 10;
-
-  async enqueueRequest<T>(request: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await request();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      });
-
-      if (!this.isProcessing) {
-        this.processQueue();
-      }
-    });
-  }
-
-  private async processQueue() {
-    if (this.queue.length === 0) {
-      this.isProcessing = false;
-      return;
-    }
+// Pattern 2: Rate limiting (see shared/api/rate-limiter.ts)
 
-    this.isProcessing = true;
-    const request = this.queue.shift();
+// Token bucket + max concurrency per origin; prefetches queue behind user
+// requests and aborted requests leave the queue
+export const apiClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_API_BASE_URL,
+}).use(rateLimitMiddleware(createRateLimiter({ requestsPerInterval: 10, interval: 1000, maxConcurrent: 4 })));
 
-    if (request) {
-      await request();
-      await new Promise((resolve) =>
-        setTimeout(resolve, 1000 / this.requestsPerSecond)
-      );
-      this.processQueue();
-    }
-  }
-}
+apiClient.get(`users/${id}`, { lane: 'prefetch', signal });
 
 // ============================================================================
 
-// Pattern 3: Custom retry logic (ky has built-in retry)
+// Pattern 3: Custom retry policy (see shared/api/retry.ts)
 
-class CustomRetryApiClient extends ApiClient {
-  constructor(config: ApiClientConfig) {
-    super({
-      ...config,
-      retry: {
-        limit: 3,
-        methods: ['get', 'put', 'head', 'delete', 'options', 'trace'],
-        statusCodes: [408, 413, 429, 500, 502, 503, 504],
-        backoffLimit: 3000,
-      } as any,
-    });
-  }
-}
+export const reportsClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_REPORTS_API_BASE_URL,
+  retry: {
+    maxAttempts: 4,
+    methods: ['GET', 'PUT', 'HEAD', 'DELETE', 'OPTIONS'],
+    statusCodes: [408, 429, 500, 502, 503, 504],
+    maxDelay: 3000,
+  },
+});
 
 */
 
@@ -0,0 +1,297 @@
+// ============================================================================
+// Entity Cache Template
+// ============================================================================
+// This template generates `createEntityCache`, the cache writes shared by every
+// create / update / delete mutation: one entity is written to its detail query
+// and to every cached list of the entity, whatever shape the list has:
+//
+//   plain array     User[]
+//   paginated       { items: User[], total: 42, ... }
+//   infinite        { pages: (User[] | { items, total })[], pageParams }
+//
+// `total` follows the number of items added or removed (on every page of an
+// infinite list). List data of any other shape is left untouched.
+//
+// Every write returns a rollback that restores the queries it touched, for
+// optimistic updates.
+//
+// Location: shared/api/entity-cache.ts
+// ============================================================================
+
+import type { InfiniteData, QueryClient, QueryKey } from '@tanstack/react-query';
+import type { Page } from './pagination';
+import type { KeyId } from './query-keys';
+
+/**
+ * Keys the cache needs (any createQueryKeys factory fits)
+ */
+export interface EntityCacheKeys<TId extends KeyId> {
+  all: QueryKey;
+  lists(): QueryKey;
+  detail(id: TId): QueryKey;
+}
+
+/**
+ * List data shapes updated by the cache (pages of any pagination style are
+ * `Page`s; their extra fields are kept)
+ */
+export type ListData<TEntity> =
+  | TEntity[]
+  | Page<TEntity>
+  | InfiniteData<TEntity[] | Page<TEntity>, unknown>;
+
+/**
+ * ID type of an entity with an `id` field
+ */
+export type IdOf<TEntity> = TEntity extends { id: infer TId } ? (TId extends KeyId ? TId : KeyId) : KeyId;
+
+/**
+ * Restores every query a write touched (queries it created are removed)
+ */
+export type Rollback = () => void;
+
+export interface EntityCacheOptions<TEntity, TId extends KeyId> {
+  /** Default: `entity.id` */
+  getId?: (entity: TEntity) => TId;
+}
+
+export interface EntityCache<TEntity, TId extends KeyId> {
+  /** Write the detail and replace the entity in every list that contains it */
+  upsert(entity: TEntity): Rollback;
+  /** Merge `changes` (or apply an updater) into the detail and list items, where cached */
+  patch(id: TId, changes: Partial<TEntity> | ((entity: TEntity) => TEntity)): Rollback;
+  /** Remove the detail (nested resources included) and the entity from every list */
+  remove(id: TId): Rollback;
+  /**
+   * Add the entity at the front of every list (first page of infinite lists),
+   * or replace it where already listed. Filters and sort order are not
+   * checked: invalidate the lists afterwards.
+   */
+  prependToLists(entity: TEntity): Rollback;
+  /** Mark the detail (nested resources included) stale and refetch it if observed */
+  invalidateDetail(id: TId): Promise<void>;
+  /** Mark every list stale and refetch the observed ones */
+  invalidateLists(): Promise<void>;
+  /** Cancel list fetches (and the detail's) so they cannot overwrite an optimistic write */
+  cancel(id?: TId): Promise<void>;
+}
+
+/**
+ * Cache writes of one entity
+ *
+ * @example
+ * ```typescript
+ * const userCache = createEntityCache<User>(queryClient, userKeys);
+ *
+ * userCache.upsert(updatedUser);                // detail + every list containing it
+ * const rollback = userCache.remove(user.id);   // optimistic delete
+ * rollback();                                   // restore detail and lists
+ * ```
+ */
+export function createEntityCache<TEntity, TId extends KeyId = IdOf<TEntity>>(
+  queryClient: QueryClient,
+  keys: EntityCacheKeys<TId>,
+  options: EntityCacheOptions<TEntity, TId> = {}
+): EntityCache<TEntity, TId> {
+  const getId = options.getId ?? ((entity: TEntity) => (entity as { id: TId }).id);
+  const isEntity = (id: TId) => (item: TEntity) => getId(item) === id;
+
+  const updateLists = (update: (items: TEntity[], page: number) => TEntity[]) => {
+    queryClient.setQueriesData<ListData<TEntity>>({ queryKey: keys.lists() }, (data) =>
+      data === undefined ? data : updateListData(data, update)
+    );
+  };
+
+  return {
+    upsert(entity) {
+      const id = getId(entity);
+      const rollback = snapshot(queryClient, [keys.detail(id), keys.lists()]);
+
+      queryClient.setQueryData(keys.detail(id), entity);
+      updateLists((items) => replaceWhere(items, isEntity(id), () => entity));
+      return rollback;
+    },
+
+    patch(id, changes) {
+      const apply = typeof changes === 'function' ? changes : (entity: TEntity) => ({ ...entity, ...changes });
+      const rollback = snapshot(queryClient, [keys.detail(id), keys.lists()]);
+
+      queryClient.setQueryData<TEntity>(keys.detail(id), (entity) => (entity === undefined ? entity : apply(entity)));
+      updateLists((items) => replaceWhere(items, isEntity(id), apply));
+      return rollback;
+    },
+
+    remove(id) {
+      const rollback = snapshot(queryClient, [keys.detail(id), keys.lists()]);
+
+      queryClient.removeQueries({ queryKey: keys.detail(id) });
+      updateLists((items) => (items.some(isEntity(id)) ? items.filter((item) => !isEntity(id)(item)) : items));
+      return rollback;
+    },
+
+    prependToLists(entity) {
+      const id = getId(entity);
+      const rollback = snapshot(queryClient, [keys.lists()]);
+
+      updateLists((items, page) => {
+        if (items.some(isEntity(id))) return replaceWhere(items, isEntity(id), () => entity);
+        return page === 0 ? [entity, ...items] : items;
+      });
+      return rollback;
+    },
+
+    invalidateDetail(id) {
+      return queryClient.invalidateQueries({ queryKey: keys.detail(id) });
+    },
+
+    invalidateLists() {
+      return queryClient.invalidateQueries({ queryKey: keys.lists() });
+    },
+
+    async cancel(id) {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: keys.lists() }),
+        id === undefined ? undefined : queryClient.cancelQueries({ queryKey: keys.detail(id) }),
+      ]);
+    },
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Apply `update` to the items of every page; `total` moves by the number of
+ * items added or removed across all pages. Unknown shapes are returned as-is.
+ */
+function updateListData<TEntity>(
+  data: ListData<TEntity>,
+  update: (items: TEntity[], page: number) => TEntity[]
+): ListData<TEntity> {
+  const infinite = isInfiniteData<TEntity>(data);
+  const pages: unknown[] = infinite ? data.pages : [data];
+  if (!pages.every((page) => Array.isArray(page) || isPage(page))) return data;
+
+  const before = pages.map((page) => itemsOf(page as TEntity[] | Page<TEntity>));
+  const after = before.map((items, index) => update(items, index));
+  if (after.every((items, index) => items === before[index])) return data;
+
+  const delta = after.reduce((sum, items, index) => sum + items.length - before[index].length, 0);
+  const updated = pages.map((page, index) => {
+    if (Array.isArray(page)) return after[index];
+
+    const list = page as Page<TEntity>;
+    const total = typeof list.total === 'number' ? Math.max(0, list.total + delta) : list.total;
+    return after[index] === before[index] && total === list.total ? list : { ...list, items: after[index], total };
+  });
+
+  return infinite
+    ? { ...data, pages: updated as (TEntity[] | Page<TEntity>)[] }
+    : (updated[0] as ListData<TEntity>);
+}
+
+function isInfiniteData<TEntity>(data: unknown): data is InfiniteData<TEntity[] | Page<TEntity>, unknown> {
+  return typeof data === 'object' && data !== null && Array.isArray((data as InfiniteData<unknown>).pages);
+}
+
+function isPage(data: unknown): data is Page<unknown> {
+  return typeof data === 'object' && data !== null && Array.isArray((data as Page<unknown>).items);
+}
+
+function itemsOf<TEntity>(page: TEntity[] | Page<TEntity>): TEntity[] {
+  return Array.isArray(page) ? page : page.items;
+}
+
+/**
+ * `items` with matches replaced, or `items` itself when nothing matches
+ */
+function replaceWhere<TEntity>(
+  items: TEntity[],
+  matches: (item: TEntity) => boolean,
+  replace: (item: TEntity) => TEntity
+): TEntity[] {
+  return items.some(matches) ? items.map((item) => (matches(item) ? replace(item) : item)) : items;
+}
+
+/**
+ * Data of every query under `queryKeys`, and a rollback that puts it back
+ */
+function snapshot(queryClient: QueryClient, queryKeys: QueryKey[]): Rollback {
+  const cache = queryClient.getQueryCache();
+  const queries = queryKeys.flatMap((queryKey) => cache.findAll({ queryKey }));
+  const saved = new Map(queries.map((query) => [query.queryHash, query.state.data]));
+
+  return () => {
+    for (const query of queryKeys.flatMap((queryKey) => cache.findAll({ queryKey }))) {
+      if (!saved.has(query.queryHash)) {
+        queryClient.removeQueries({ queryKey: query.queryKey, exact: true });
+      }
+    }
+    for (const query of queries) {
+      // Re-creates queries the write removed
+      queryClient.setQueryData(query.queryKey, saved.get(query.queryHash));
+    }
+  };
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: One cache per entity
+
+// entities/user/api/user.cache.ts
+import { useQueryClient } from '@tanstack/react-query';
+import { createEntityCache } from '@/shared/api';
+import { userKeys } from './user.keys';
+import type { User } from '../model/types';
+
+export function useUserCache() {
+  return createEntityCache<User>(useQueryClient(), userKeys);
+}
+
+// ============================================================================
+
+// Example 2: Optimistic update
+
+export function useUpdateUser() {
+  const userCache = useUserCache();
+
+  return useMutation({
+    mutationFn: ({ id, data }: UpdateUserParams) => userApi.update(id, data),
+    onMutate: async ({ id, data }) => {
+      await userCache.cancel(id);
+      return { rollback: userCache.patch(id, data) };
+    },
+    onError: (_error, _params, context) => context?.rollback(),
+    onSuccess: (user) => userCache.upsert(user),
+    onSettled: (_user, _error, { id }) => Promise.all([userCache.invalidateDetail(id), userCache.invalidateLists()]),
+  });
+}
+
+// ============================================================================
+
+// Example 3: Lists of every shape are updated
+
+queryClient.setQueryData(userKeys.list({ role: 'admin' }), [alice, bob]);
+queryClient.setQueryData(userKeys.list({ page: 1 }), { items: [alice, bob], total: 2, page: 1 });
+queryClient.setQueryData(userKeys.infinite(), { pages: [{ items: [alice], total: 2 }, { items: [bob], total: 2 }], pageParams: [0, 1] });
+
+userCache.remove(bob.id);
+// [alice]
+// { items: [alice], total: 1, page: 1 }
+// { pages: [{ items: [alice], total: 1 }, { items: [], total: 1 }], pageParams: [0, 1] }
+
+// userKeys.infinite(filters) is ['user', 'list', 'infinite', { filters }], under userKeys.lists()
+
+// ============================================================================
+
+// Example 4: Custom ID field
+
+const productCache = createEntityCache<Product, string>(queryClient, productKeys, {
+  getId: (product) => product.sku,
+});
+
+*/
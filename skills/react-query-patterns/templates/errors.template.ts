@@ -0,0 +1,443 @@
+// ============================================================================
+// API Errors Template
+// ============================================================================
+// This template generates the typed error hierarchy thrown by ApiClient, a
+// normaliser that maps any thrown value into it, and type guards for React
+// Query's `retry` / `throwOnError`.
+//
+//   ApiError
+//   ├── NetworkError         request never got a response (offline, DNS, CORS)
+//   ├── TimeoutError         no response within the client timeout (or AbortSignal.timeout)
+//   ├── AbortedError         cancelled through an AbortSignal
+//   ├── HttpError            non-2xx response
+//   │   ├── UnauthorizedError   401
+//   │   ├── ForbiddenError      403
+//   │   ├── NotFoundError       404
+//   │   ├── ConflictError       409
+//   │   └── ServerError         5xx
+//   └── ValidationError      response does not match its Zod schema
+//
+// HttpErrors carry the RFC 7807 problem details of `application/problem+json`
+// responses, including field errors (`errors: { email: ['Already taken'] }`).
+//
+// Location: shared/api/errors.ts
+// ============================================================================
+
+import { HTTPError, TimeoutError as KyTimeoutError } from 'ky';
+import type { z } from 'zod';
+
+/**
+ * RFC 7807 problem details (`application/problem+json`)
+ */
+export interface ProblemDetails {
+  /** URI identifying the problem type ('about:blank' when absent) */
+  type: string;
+  title?: string;
+  status?: number;
+  /** Explanation specific to this occurrence */
+  detail?: string;
+  instance?: string;
+  /** Field-level validation messages, keyed by field name or JSON pointer */
+  errors: Record<string, string[]>;
+  /** Extension members (e.g. traceId) */
+  [extension: string]: unknown;
+}
+
+/**
+ * Error options of HttpError and its subclasses
+ */
+export interface HttpErrorOptions extends ErrorOptions {
+  /** Response headers (Retry-After, trace ids, ...) */
+  headers?: Headers;
+}
+
+/**
+ * Base class of every error thrown by ApiClient
+ */
+export class ApiError extends Error {
+  /** HTTP status (HttpError only) */
+  declare readonly status?: number;
+  /** Attempts ApiClient made before giving up (set by ApiClient, see shared/api/retry.ts) */
+  attempts?: number;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS failure, CORS)
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Network request failed', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * No response within the client timeout
+ */
+export class TimeoutError extends ApiError {
+  constructor(message = 'Request timed out', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal (e.g. React Query
+ * cancelled an outdated query); usually not worth reporting
+ */
+export class AbortedError extends ApiError {
+  constructor(message = 'Request aborted', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Non-2xx response
+ */
+export class HttpError extends ApiError {
+  /** Problem details, when the body is an RFC 7807 document */
+  readonly problem?: ProblemDetails;
+  readonly headers?: Headers;
+
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    /** Parsed response body */
+    public readonly data?: unknown,
+    options?: HttpErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'HttpError';
+    this.problem = parseProblemDetails(data);
+    this.headers = options?.headers;
+  }
+
+  /** Field-level messages from the problem details (empty when none) */
+  get fieldErrors(): Record<string, string[]> {
+    return this.problem?.errors ?? {};
+  }
+
+  /** Milliseconds the server asked to wait (Retry-After header), if any */
+  get retryAfter(): number | undefined {
+    return parseRetryAfter(this.headers?.get('Retry-After'));
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Unauthorized', code?: string, data?: unknown, options?: HttpErrorOptions) {
+    super(message, 401, code, data, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'Forbidden', code?: string, data?: unknown, options?: HttpErrorOptions) {
+    super(message, 403, code, data, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not found', code?: string, data?: unknown, options?: HttpErrorOptions) {
+    super(message, 404, code, data, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict', code?: string, data?: unknown, options?: HttpErrorOptions) {
+    super(message, 409, code, data, options);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ServerError extends HttpError {
+  constructor(message: string, status = 500, code?: string, data?: unknown, options?: HttpErrorOptions) {
+    super(message, status, code, data, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Response that does not match the schema passed to an ApiClient method
+ */
+export class ValidationError extends ApiError {
+  constructor(
+    /** Method and URL (e.g. 'GET users/1') */
+    public readonly endpoint: string,
+    public readonly issues: z.ZodError['issues'],
+    /** Response body as received */
+    public readonly data?: unknown
+  ) {
+    super(
+      `Invalid response from ${endpoint}: ${issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * HttpError subclass for a status code
+ *
+ * @example
+ * ```typescript
+ * throw createHttpError(404, 'User not found'); // NotFoundError
+ * ```
+ */
+export function createHttpError(
+  status: number,
+  message: string,
+  code?: string,
+  data?: unknown,
+  options?: HttpErrorOptions
+): HttpError {
+  switch (status) {
+    case 401:
+      return new UnauthorizedError(message, code, data, options);
+    case 403:
+      return new ForbiddenError(message, code, data, options);
+    case 404:
+      return new NotFoundError(message, code, data, options);
+    case 409:
+      return new ConflictError(message, code, data, options);
+    default:
+      return status >= 500
+        ? new ServerError(message, status, code, data, options)
+        : new HttpError(message, status, code, data, options);
+  }
+}
+
+/**
+ * Read an RFC 7807 problem details document. Field errors are normalised to
+ * string arrays (`{ email: 'Taken' }` → `{ email: ['Taken'] }`).
+ *
+ * @returns `undefined` when the body has none of type / title / detail / errors
+ *
+ * @example
+ * ```typescript
+ * parseProblemDetails({ title: 'Invalid input', status: 422, errors: { email: ['Already taken'] } });
+ * // { type: 'about:blank', title: 'Invalid input', status: 422, errors: { email: ['Already taken'] } }
+ * ```
+ */
+export function parseProblemDetails(body: unknown): ProblemDetails | undefined {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return undefined;
+
+  const { type, title, status, detail, instance, errors, ...extensions } = body as Record<string, unknown>;
+  const isProblem =
+    typeof type === 'string' || typeof title === 'string' || typeof detail === 'string' || isRecord(errors);
+  if (!isProblem) return undefined;
+
+  return {
+    ...extensions,
+    type: typeof type === 'string' ? type : 'about:blank',
+    title: typeof title === 'string' ? title : undefined,
+    status: typeof status === 'number' ? status : undefined,
+    detail: typeof detail === 'string' ? detail : undefined,
+    instance: typeof instance === 'string' ? instance : undefined,
+    errors: isRecord(errors) ? normalizeFieldErrors(errors) : {},
+  };
+}
+
+/**
+ * Field-level messages of any thrown value (empty unless it is an HttpError
+ * with problem details)
+ *
+ * @example
+ * ```tsx
+ * {getFieldErrors(mutation.error).email?.[0]}
+ * ```
+ */
+export function getFieldErrors(error: unknown): Record<string, string[]> {
+  return error instanceof HttpError ? error.fieldErrors : {};
+}
+
+/**
+ * Map any thrown value into the ApiError hierarchy (ky errors, fetch
+ * TypeErrors, AbortSignal reasons, ...); ApiErrors pass through unchanged
+ *
+ * @example
+ * ```typescript
+ * retry: (failureCount, error) => failureCount < 2 && isRetryableError(normalizeError(error)),
+ * ```
+ */
+export function normalizeError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof HTTPError) {
+    return createHttpError(error.response.status, error.response.statusText || error.message, undefined, undefined, {
+      cause: error,
+      headers: error.response.headers,
+    });
+  }
+  if (error instanceof KyTimeoutError) {
+    return new TimeoutError(error.message, { cause: error });
+  }
+  // AbortSignal.timeout(ms) rejects with a DOMException named TimeoutError
+  if (isSignalReason(error, 'TimeoutError')) {
+    return new TimeoutError(error instanceof Error ? error.message : undefined, { cause: error });
+  }
+  if (isSignalReason(error, 'AbortError')) {
+    return new AbortedError(error instanceof Error ? error.message : undefined, { cause: error });
+  }
+  // fetch rejects with a TypeError when no response arrives
+  if (error instanceof TypeError) {
+    return new NetworkError(error.message, { cause: error });
+  }
+
+  return new ApiError(error instanceof Error ? error.message : String(error), { cause: error });
+}
+
+// ============================================================================
+// Type guards
+// ============================================================================
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Whether the error is an HttpError, optionally with one of the given statuses
+ */
+export function isHttpError(error: unknown, ...statuses: number[]): error is HttpError {
+  return error instanceof HttpError && (statuses.length === 0 || statuses.includes(error.status));
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError;
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError;
+}
+
+export function isAbortedError(error: unknown): error is AbortedError {
+  return error instanceof AbortedError;
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError;
+}
+
+/**
+ * Transient failures worth retrying: network, timeout, 408, 429 and 5xx.
+ * Aborts, other 4xx and validation errors fail the same way every time.
+ * (ApiClient requests are retried by its own policy, see shared/api/retry.ts.)
+ */
+export function isRetryableError(error: unknown): boolean {
+  return (
+    isNetworkError(error) ||
+    isTimeoutError(error) ||
+    error instanceof ServerError ||
+    isHttpError(error, 408, 429)
+  );
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeFieldErrors(errors: Record<string, unknown>): Record<string, string[]> {
+  const normalized: Record<string, string[]> = {};
+  for (const [field, messages] of Object.entries(errors)) {
+    const list = (Array.isArray(messages) ? messages : [messages]).filter(
+      (message): message is string => typeof message === 'string'
+    );
+    if (list.length > 0) normalized[field] = list;
+  }
+  return normalized;
+}
+
+/**
+ * Retry-After value (delay in seconds or HTTP date) in milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether the error is an AbortSignal reason with the given name
+ */
+function isSignalReason(error: unknown, name: 'AbortError' | 'TimeoutError'): boolean {
+  return (
+    (error instanceof Error || (typeof DOMException !== 'undefined' && error instanceof DOMException)) &&
+    error.name === name
+  );
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: React Query defaults branch on the error type
+
+// shared/api/query-client.ts
+import { QueryClient } from '@tanstack/react-query';
+import { isRetryableError, normalizeError, ServerError } from './errors';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Retry transient failures only; a 404 or a schema mismatch fails at once.
+      // For queryFns that bypass ApiClient; with ApiClient use createQueryRetry()
+      // (shared/api/retry.ts) so failures are not retried twice.
+      retry: (failureCount, error) => failureCount < 2 && isRetryableError(normalizeError(error)),
+      // Server errors go to the nearest error boundary, the rest render inline
+      throwOnError: (error) => normalizeError(error) instanceof ServerError,
+    },
+  },
+});
+
+// ============================================================================
+
+// Example 2: Branching in UI code
+
+import { isHttpError, isNetworkError, NotFoundError } from '@/shared/api';
+
+function describeError(error: unknown): string {
+  if (error instanceof NotFoundError) return 'This user no longer exists';
+  if (isHttpError(error, 403)) return "You don't have permission";
+  if (isNetworkError(error)) return 'You are offline';
+  return 'Something went wrong';
+}
+
+// ============================================================================
+
+// Example 3: Problem details
+
+// 422 application/problem+json
+// { "type": "https://api.example.com/problems/validation", "title": "Invalid input",
+//   "detail": "2 fields are invalid", "errors": { "email": ["Already taken"], "name": ["Too short"] } }
+
+try {
+  await userApi.create(input);
+} catch (error) {
+  if (isHttpError(error, 422)) {
+    error.message;            // '2 fields are invalid' (detail, else title)
+    error.problem?.type;      // 'https://api.example.com/problems/validation'
+    error.fieldErrors.email;  // ['Already taken']
+  }
+}
+
+// React Hook Form: see shared/api/form-errors.ts (setServerErrors)
+
+*/
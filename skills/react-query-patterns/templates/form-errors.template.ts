@@ -0,0 +1,154 @@
+// ============================================================================
+// Form Errors Template
+// ============================================================================
+// This template generates the bridge between server-side validation and React
+// Hook Form: field errors from an RFC 7807 problem details response (see
+// errors.ts) are pushed into `setError`, so each message shows next to its
+// input. Messages that match no field become a root error.
+//
+// Location: shared/api/form-errors.ts
+// ============================================================================
+
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { isHttpError } from './errors';
+
+/**
+ * Options for setServerErrors
+ */
+export interface SetServerErrorsOptions<TFieldValues extends FieldValues> {
+  /**
+   * Form fields that may receive server errors. Errors for other names go to
+   * the root error. Default: every name the server sends.
+   */
+  fields?: readonly Path<TFieldValues>[];
+  /** Server field name → form field (e.g. { Email: 'email', '/address/zip': 'address.zipCode' }) */
+  fieldMap?: Partial<Record<string, Path<TFieldValues>>>;
+  /**
+   * Root error key for messages without a matching field, or `false` to skip
+   * them (default: 'server' → `errors.root.server`)
+   */
+  rootKey?: string | false;
+  /** Focus the first field with an error (default: true) */
+  shouldFocus?: boolean;
+}
+
+/**
+ * Push the field errors of a failed request into React Hook Form
+ *
+ * Server field names are matched as-is, through `fieldMap`, or as JSON
+ * pointers (`/address/zip` → `address.zip`). Anything else, including errors
+ * without field details, is reported as `errors.root.server`.
+ *
+ * @returns `true` when at least one field error was set
+ *
+ * @example
+ * ```tsx
+ * const { register, setError, handleSubmit, formState: { errors } } = useForm<FormData>();
+ *
+ * const onSubmit = (data: FormData) =>
+ *   mutate(data, { onError: (error) => setServerErrors(error, setError) });
+ *
+ * // <input {...register('email')} /> {errors.email?.message}
+ * // {errors.root?.server?.message}
+ * ```
+ */
+export function setServerErrors<TFieldValues extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<TFieldValues>,
+  options: SetServerErrorsOptions<TFieldValues> = {}
+): boolean {
+  const { fields, fieldMap = {}, rootKey = 'server', shouldFocus = true } = options;
+  const type = isHttpError(error) ? String(error.status) : 'server';
+  const unmatched: string[] = [];
+  let matched = false;
+
+  const fieldErrors = isHttpError(error) ? error.fieldErrors : {};
+  for (const [name, messages] of Object.entries(fieldErrors)) {
+    const field = fieldMap[name] ?? (pointerToPath(name) as Path<TFieldValues>);
+    if (!field || (fields && !fields.includes(field))) {
+      unmatched.push(...messages);
+      continue;
+    }
+
+    setError(field, { type, message: messages.join(' ') }, { shouldFocus: shouldFocus && !matched });
+    matched = true;
+  }
+
+  if (rootKey !== false && (!matched || unmatched.length > 0)) {
+    const message =
+      unmatched.length > 0
+        ? unmatched.join(' ')
+        : error instanceof Error
+          ? error.message
+          : 'An unexpected error occurred';
+    setError(`root.${rootKey}` as `root.${string}`, { type, message });
+  }
+
+  return matched;
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * JSON pointer or plain field name → React Hook Form path
+ */
+function pointerToPath(name: string): string {
+  if (!name.startsWith('/')) return name;
+
+  return name
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: Feature form with server-side validation
+
+// features/register-user/ui/RegisterUserForm.tsx
+import { useForm } from 'react-hook-form';
+import { setServerErrors } from '@/shared/api';
+
+function RegisterUserForm() {
+  const { mutate, isPending } = useRegisterUser();
+  const {
+    register,
+    setError,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RegisterUserFormData>();
+
+  const onSubmit = (data: RegisterUserFormData) =>
+    mutate(data, {
+      // 422 { "errors": { "email": ["Already taken"] } } → errors.email
+      onError: (error) => setServerErrors(error, setError),
+    });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <input {...register('email')} />
+      {errors.email && <span className="error">{errors.email.message}</span>}
+
+      {errors.root?.server && <div className="error">{errors.root.server.message}</div>}
+      <button type="submit" disabled={isPending}>Register</button>
+    </form>
+  );
+}
+
+// ============================================================================
+
+// Example 2: Backend field names differ from the form
+
+setServerErrors(error, setError, {
+  fields: ['email', 'password'],
+  fieldMap: { Email: 'email', Password: 'password' },
+});
+// Errors for fields not listed go to errors.root.server
+
+*/
@@ -0,0 +1,323 @@
+// ============================================================================
+// API Middleware Template
+// ============================================================================
+// This template generates the middleware pipeline of ApiClient and its
+// built-in middlewares: auth header, logging, W3C trace context
+// (`traceparent`), locale header, timing and rate limiting.
+//
+// Every attempt of a request runs through the middlewares registered with
+// `apiClient.use()`:
+// - onRequest:  registration order, before the request is sent
+// - onResponse: reverse order, for every response (including 4xx / 5xx),
+//               before it is turned into an HttpError
+// - onError:    reverse order, when the attempt fails (HTTP error, network
+//               error, timeout, abort), before the retry policy runs
+//
+// Location: shared/api/middleware.ts
+// ============================================================================
+
+import type { ApiError } from './errors';
+import type { RateLimiter, RequestLane } from './rate-limiter';
+
+/**
+ * One attempt of a request, shared by every phase of every middleware
+ * (use it as a WeakMap key to keep per-request state)
+ */
+export interface RequestContext {
+  method: string;
+  /** URL as passed to ApiClient (relative to prefixUrl) */
+  url: string;
+  lane: RequestLane;
+}
+
+/**
+ * ApiClient middleware: any phase may be left out
+ */
+export interface ApiMiddleware {
+  /** Shown in logs and devtools */
+  name?: string;
+  /** Change headers in place, or return a new Request */
+  onRequest?(request: Request, context: RequestContext): void | Request | Promise<void | Request>;
+  /**
+   * Inspect the response, or return a replacement. Clone it before reading
+   * the body: ApiClient still parses it.
+   */
+  onResponse?(response: Response, request: Request, context: RequestContext): void | Response | Promise<void | Response>;
+  /** Observe the failure, or return another ApiError to throw instead */
+  onError?(error: ApiError, context: RequestContext): void | ApiError | Promise<void | ApiError>;
+}
+
+/**
+ * Timing of one attempt, reported by timingMiddleware
+ */
+export interface RequestTiming {
+  method: string;
+  url: string;
+  /** Response status, undefined when no response arrived */
+  status?: number;
+  /** Milliseconds from the request phase to the response or failure */
+  duration: number;
+  error?: ApiError;
+}
+
+export interface AuthMiddlewareOptions {
+  /** Default: 'Authorization' */
+  header?: string;
+  /** Prefix of the header value, or '' for none (default: 'Bearer') */
+  scheme?: string;
+}
+
+/**
+ * Sets the auth header from `getToken` on every attempt (including the replay
+ * after a token refresh). ApiClient installs one backed by its token store;
+ * add others for extra credentials, e.g. an API key.
+ *
+ * @example
+ * ```typescript
+ * apiClient.use(authMiddleware(() => import.meta.env.VITE_MAPS_KEY, { header: 'X-Api-Key', scheme: '' }));
+ * ```
+ */
+export function authMiddleware(
+  getToken: () => string | null | undefined | Promise<string | null | undefined>,
+  options: AuthMiddlewareOptions = {}
+): ApiMiddleware {
+  const { header = 'Authorization', scheme = 'Bearer' } = options;
+
+  return {
+    name: 'auth',
+    async onRequest(request) {
+      const token = await getToken();
+      if (token) {
+        request.headers.set(header, scheme ? `${scheme} ${token}` : token);
+      }
+    },
+  };
+}
+
+/**
+ * Logs requests, responses and failures without a response. ApiClient
+ * installs one in development.
+ */
+export function loggingMiddleware(logger: Pick<Console, 'log' | 'warn'> = console): ApiMiddleware {
+  return {
+    name: 'logging',
+    onRequest(request) {
+      logger.log(`[API Request] ${request.method} ${request.url}`);
+    },
+    onResponse(response, request) {
+      logger.log(`[API Response] ${request.url}`, { status: response.status });
+    },
+    onError(error, context) {
+      // HTTP errors were logged with their response
+      if (error.status === undefined) {
+        logger.warn(`[API Failed] ${context.method} ${context.url} (${error.message})`);
+      }
+    },
+  };
+}
+
+export interface TraceparentMiddlewareOptions {
+  /** Sampled flag of new traces (default: true) */
+  sampled?: boolean;
+  /** Only send the header to these origins (default: every origin) */
+  origins?: string[];
+}
+
+/**
+ * Starts a W3C trace context per request: `traceparent: 00-<trace-id>-<span-id>-01`.
+ * A `traceparent` set by the caller (e.g. an OpenTelemetry span) is kept.
+ *
+ * @example
+ * ```typescript
+ * apiClient.use(traceparentMiddleware({ origins: [new URL(import.meta.env.VITE_API_BASE_URL).origin] }));
+ * ```
+ */
+export function traceparentMiddleware(options: TraceparentMiddlewareOptions = {}): ApiMiddleware {
+  const { sampled = true, origins } = options;
+
+  return {
+    name: 'traceparent',
+    onRequest(request) {
+      if (request.headers.has('traceparent')) return;
+      if (origins && !origins.includes(new URL(request.url).origin)) return;
+
+      request.headers.set('traceparent', `00-${randomHex(16)}-${randomHex(8)}-${sampled ? '01' : '00'}`);
+    },
+  };
+}
+
+/**
+ * Sends the UI locale (default: `navigator.language`) as Accept-Language,
+ * unless the request sets the header itself
+ *
+ * @example
+ * ```typescript
+ * apiClient.use(localeMiddleware(() => i18n.language));
+ * ```
+ */
+export function localeMiddleware(
+  getLocale: () => string | null | undefined = () => globalThis.navigator?.language,
+  header = 'Accept-Language'
+): ApiMiddleware {
+  return {
+    name: 'locale',
+    onRequest(request) {
+      const locale = getLocale();
+      if (locale && !request.headers.has(header)) {
+        request.headers.set(header, locale);
+      }
+    },
+  };
+}
+
+/**
+ * Measures every attempt (default: `console.debug` in development)
+ *
+ * Register it last to time the request alone, first to include the other
+ * middlewares.
+ *
+ * @example
+ * ```typescript
+ * apiClient.use(timingMiddleware(({ method, url, status, duration }) => {
+ *   analytics.track('api_timing', { endpoint: `${method} ${url}`, status, duration });
+ * }));
+ * ```
+ */
+export function timingMiddleware(report: (timing: RequestTiming) => void = logTiming): ApiMiddleware {
+  const started = new WeakMap<RequestContext, number>();
+  const finish = (context: RequestContext, status?: number, error?: ApiError) => {
+    const start = started.get(context);
+    if (start === undefined) return;
+
+    started.delete(context);
+    report({ method: context.method, url: context.url, status, duration: performance.now() - start, error });
+  };
+
+  return {
+    name: 'timing',
+    onRequest(_request, context) {
+      started.set(context, performance.now());
+    },
+    onResponse(response, _request, context) {
+      finish(context, response.status);
+    },
+    onError(error, context) {
+      finish(context, error.status, error);
+    },
+  };
+}
+
+/**
+ * Waits for a slot of `limiter` (see shared/api/rate-limiter.ts) before each
+ * attempt and frees it when the response or failure arrives. The request's
+ * `lane` option picks the priority lane; aborting a queued request removes it
+ * from the queue. Queue time does not count against the client timeout.
+ *
+ * @example
+ * ```typescript
+ * apiClient.use(rateLimitMiddleware(createRateLimiter({ requestsPerInterval: 10, maxConcurrent: 6 })));
+ * ```
+ */
+export function rateLimitMiddleware(limiter: RateLimiter): ApiMiddleware {
+  const slots = new WeakMap<RequestContext, () => void>();
+  const release = (context: RequestContext) => {
+    slots.get(context)?.();
+    slots.delete(context);
+  };
+
+  return {
+    name: 'rate-limit',
+    onRequest(request, context) {
+      return new Promise<void>((started, rejected) => {
+        const task = () =>
+          new Promise<void>((done) => {
+            slots.set(context, done);
+            started();
+          });
+        limiter
+          .schedule(task, { origin: new URL(request.url).origin, lane: context.lane, signal: request.signal })
+          .catch(rejected);
+      });
+    },
+    onResponse(_response, _request, context) {
+      release(context);
+    },
+    onError(_error, context) {
+      release(context);
+    },
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * `bytes` random bytes as lowercase hex (never all zeros, as trace context requires)
+ */
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  if (values.every((value) => value === 0)) values[0] = 1;
+  return Array.from(values, (value) => value.toString(16).padStart(2, '0')).join('');
+}
+
+function logTiming({ method, url, status, duration }: RequestTiming): void {
+  if (import.meta.env.DEV) {
+    console.debug(`[API Timing] ${method} ${url} ${status ?? 'failed'} ${Math.round(duration)}ms`);
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: Compose the default client
+
+// shared/api/client.ts
+import { createRateLimiter } from './rate-limiter';
+import { localeMiddleware, rateLimitMiddleware, timingMiddleware, traceparentMiddleware } from './middleware';
+
+// Auth (token store) and logging (development) are already installed
+export const apiClient = new ApiClient({ prefixUrl: import.meta.env.VITE_API_BASE_URL })
+  .use(rateLimitMiddleware(createRateLimiter({ requestsPerInterval: 10, maxConcurrent: 6 })))
+  .use(traceparentMiddleware())
+  .use(localeMiddleware(() => i18n.language))
+  .use(timingMiddleware());
+
+// ============================================================================
+
+// Example 2: Second backend without subclassing
+
+// shared/api/search-client.ts
+export const searchClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_SEARCH_API_BASE_URL,
+  tokenStore: createMemoryTokenStore(), // no user session for this API
+}).use(authMiddleware(() => import.meta.env.VITE_SEARCH_API_KEY, { header: 'X-Api-Key', scheme: '' }));
+
+// ============================================================================
+
+// Example 3: Custom middleware
+
+// Report server errors to Sentry, with the trace id sent to the backend
+const sentryMiddleware: ApiMiddleware = {
+  name: 'sentry',
+  onError(error, { method, url }) {
+    if (isHttpError(error) && error.status >= 500) {
+      Sentry.captureException(error, { tags: { endpoint: `${method} ${url}` } });
+    }
+  },
+};
+
+apiClient.use(sentryMiddleware);
+
+// Map a legacy error body to ConflictError
+apiClient.use({
+  onError(error) {
+    if (isHttpError(error, 400) && (error.data as { code?: string })?.code === 'DUPLICATE') {
+      return new ConflictError(error.message, 'DUPLICATE', error.data);
+    }
+  },
+});
+
+*/
@@ -3,6 +3,8 @@
 // ============================================================================
 // This template generates custom mutation hooks for write operations
 // (create, update, delete) with optimistic updates and cache invalidation.
+// Cache writes go through createEntityCache (shared/api/entity-cache.ts), so
+// plain, paginated and infinite lists are all kept in sync.
 //
 // Usage:
 //   Replace {{entityName}} with camelCase name (e.g., user, product)
@@ -15,6 +17,7 @@
 // ============================================================================
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { createEntityCache } from '@/shared/api';
 import { {{entityName}}Api, {{entityName}}Keys } from '@/entities/{{entityName}}';
 import type { {{EntityName}} } from '@/entities/{{entityName}}';
 
@@ -56,7 +59,7 @@ export interface Create{{EntityName}}Params {
  * ```
  */
 export function useCreate{{EntityName}}() {
-  const queryClient = useQueryClient();
+  const {{entityName}}Cache = createEntityCache<{{EntityName}}>(useQueryClient(), {{entityName}}Keys);
 
   return useMutation({
     mutationFn: async (params: Create{{EntityName}}Params): Promise<{{EntityName}}> => {
@@ -65,16 +68,12 @@ export function useCreate{{EntityName}}() {
     },
 
     onSuccess: (new{{EntityName}}) => {
-      // Invalidate lists to show new item
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.lists()
-      });
-
-      // Optionally set detail cache for instant navigation
-      queryClient.setQueryData(
-        {{entityName}}Keys.detail(new{{EntityName}}.id),
-        new{{EntityName}}
-      );
+      // Detail cache for instant navigation, new item on top of the lists
+      {{entityName}}Cache.upsert(new{{EntityName}});
+      {{entityName}}Cache.prependToLists(new{{EntityName}});
+
+      // Refetch lists: the new item may not match their filters or sort order
+      return {{entityName}}Cache.invalidateLists();
     },
 
     onError: (error) => {
@@ -119,7 +118,7 @@ export interface Update{{EntityName}}Params {
  * ```
  */
 export function useUpdate{{EntityName}}() {
-  const queryClient = useQueryClient();
+  const {{entityName}}Cache = createEntityCache<{{EntityName}}>(useQueryClient(), {{entityName}}Keys);
 
   return useMutation({
     mutationFn: async (params: Update{{EntityName}}Params): Promise<{{EntityName}}> => {
@@ -130,48 +129,26 @@ export function useUpdate{{EntityName}}() {
     // Optimistic update
     onMutate: async (params) => {
       // Cancel outgoing queries to avoid overwriting optimistic update
-      await queryClient.cancelQueries({
-        queryKey: {{entityName}}Keys.detail(params.id)
-      });
-
-      // Snapshot previous value for rollback
-      const previous{{EntityName}} = queryClient.getQueryData<{{EntityName}}>(
-        {{entityName}}Keys.detail(params.id)
-      );
-
-      // Optimistically update cache
-      queryClient.setQueryData<{{EntityName}}>(
-        {{entityName}}Keys.detail(params.id),
-        (old) => {
-          if (!old) return old;
-          return { ...old, ...params.data };
-        }
-      );
-
-      // Return context with snapshot for rollback
-      return { previous{{EntityName}} };
+      await {{entityName}}Cache.cancel(params.id);
+
+      // Patch detail and lists; keep the rollback in the context
+      return { rollback: {{entityName}}Cache.patch(params.id, params.data) };
     },
 
     // Rollback on error
     onError: (error, params, context) => {
-      if (context?.previous{{EntityName}}) {
-        queryClient.setQueryData(
-          {{entityName}}Keys.detail(params.id),
-          context.previous{{EntityName}}
-        );
-      }
+      context?.rollback();
       console.error('Failed to update {{entityName}}:', error);
     },
 
-    // Refetch after success or error
-    onSettled: (data, error, params) => {
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.detail(params.id)
-      });
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.lists()
-      });
+    // Server response wins over the optimistic patch
+    onSuccess: (updated{{EntityName}}) => {
+      {{entityName}}Cache.upsert(updated{{EntityName}});
     },
+
+    // Refetch after success or error
+    onSettled: (data, error, params) =>
+      Promise.all([{{entityName}}Cache.invalidateDetail(params.id), {{entityName}}Cache.invalidateLists()]),
   });
 }
 
@@ -207,7 +184,7 @@ export function useUpdate{{EntityName}}() {
  * ```
  */
 export function useDelete{{EntityName}}() {
-  const queryClient = useQueryClient();
+  const {{entityName}}Cache = createEntityCache<{{EntityName}}>(useQueryClient(), {{entityName}}Keys);
 
   return useMutation({
     mutationFn: async (id: string): Promise<void> => {
@@ -217,59 +194,20 @@ export function useDelete{{EntityName}}() {
     // Optimistic delete
     onMutate: async (id) => {
       // Cancel outgoing queries
-      await queryClient.cancelQueries({
-        queryKey: {{entityName}}Keys.detail(id)
-      });
-      await queryClient.cancelQueries({
-        queryKey: {{entityName}}Keys.lists()
-      });
-
-      // Snapshot previous values
-      const previous{{EntityName}} = queryClient.getQueryData<{{EntityName}}>(
-        {{entityName}}Keys.detail(id)
-      );
-      const previous{{EntityName}}Lists = queryClient.getQueriesData({
-        queryKey: {{entityName}}Keys.lists()
-      });
-
-      // Optimistically remove from cache
-      queryClient.removeQueries({
-        queryKey: {{entityName}}Keys.detail(id)
-      });
-
-      // Optimistically remove from lists
-      queryClient.setQueriesData<{{EntityName}}[]>(
-        { queryKey: {{entityName}}Keys.lists() },
-        (old) => old?.filter((item) => item.id !== id)
-      );
-
-      return { previous{{EntityName}}, previous{{EntityName}}Lists };
+      await {{entityName}}Cache.cancel(id);
+
+      // Remove detail (and its nested resources) and drop the item from every list
+      return { rollback: {{entityName}}Cache.remove(id) };
     },
 
     // Rollback on error
     onError: (error, id, context) => {
-      if (context?.previous{{EntityName}}) {
-        queryClient.setQueryData(
-          {{entityName}}Keys.detail(id),
-          context.previous{{EntityName}}
-        );
-      }
-
-      if (context?.previous{{EntityName}}Lists) {
-        context.previous{{EntityName}}Lists.forEach(([queryKey, data]) => {
-          queryClient.setQueryData(queryKey, data);
-        });
-      }
-
+      context?.rollback();
       console.error('Failed to delete {{entityName}}:', error);
     },
 
-    // Refetch to sync with server
-    onSettled: () => {
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.all
-      });
-    },
+    // Refetch lists to sync with server (the detail is gone)
+    onSettled: () => {{entityName}}Cache.invalidateLists(),
   });
 }
 
@@ -392,16 +330,17 @@ function {{EntityName}}Card({ {{entityName}} }: { {{entityName}}: {{EntityName}}
 // Example 4: Bulk operations
 
 function useBulkDelete{{EntityName}}s() {
-  const queryClient = useQueryClient();
+  const {{entityName}}Cache = createEntityCache<{{EntityName}}>(useQueryClient(), {{entityName}}Keys);
 
   return useMutation({
     mutationFn: async (ids: string[]): Promise<void> => {
       await Promise.all(ids.map((id) => {{entityName}}Api.delete(id)));
     },
 
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: {{entityName}}Keys.all });
+    onSuccess: (_data, ids) => {
+      ids.forEach((id) => {{entityName}}Cache.remove(id));
       toast.success('{{EntityName}}s deleted successfully!');
+      return {{entityName}}Cache.invalidateLists();
     },
   });
 }
@@ -480,29 +419,22 @@ export function useArchive{{EntityName}}() {
 // Pattern 3: Mutation with multiple cache updates
 
 export function useTransfer{{EntityName}}() {
-  const queryClient = useQueryClient();
+  const {{entityName}}Cache = createEntityCache<{{EntityName}}>(useQueryClient(), {{entityName}}Keys);
 
   return useMutation({
     mutationFn: async (params: { id: string; targetId: string }) => {
       return await {{entityName}}Api.transfer(params.id, params.targetId);
     },
 
-    onSuccess: (data, variables) => {
-      // Update source
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.detail(variables.id)
-      });
-
-      // Update target
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.detail(variables.targetId)
-      });
-
-      // Update lists
-      queryClient.invalidateQueries({
-        queryKey: {{entityName}}Keys.lists()
-      });
-    },
+    onSuccess: (data, variables) =>
+      Promise.all([
+        // Update source
+        {{entityName}}Cache.invalidateDetail(variables.id),
+        // Update target
+        {{entityName}}Cache.invalidateDetail(variables.targetId),
+        // Update lists
+        {{entityName}}Cache.invalidateLists(),
+      ]),
   });
 }
 
@@ -0,0 +1,319 @@
+// ============================================================================
+// Pagination Template
+// ============================================================================
+// This template generates the pagination contracts of paginated endpoints:
+// one page envelope, request params and infiniteQueryOptions factory per
+// style, so an entity switches style by swapping three names:
+//
+//   style    page envelope     request params                 page param
+//   offset   OffsetPage<T>     { page, pageSize, offset }     page number (1-based)
+//   cursor   CursorPage<T>     { cursor, limit }              opaque cursor from the server
+//   keyset   KeysetPage<T>     { after | before, limit }      sort key of the last / first item
+//
+// Every envelope is a `Page<T>` (`{ items, total? }`), the shape
+// createEntityCache (entity-cache.ts) updates after mutations. Infinite
+// queries live under `keys.infinite(filters)`, below `keys.lists()`, so list
+// invalidation and cache writes reach them.
+//
+// `maxPages` bounds the pages kept per infinite query: older pages are
+// dropped while scrolling and fetched again (previous page param) when the
+// user scrolls back.
+//
+// Location: shared/api/pagination.ts
+// ============================================================================
+
+import { infiniteQueryOptions, type QueryKey } from '@tanstack/react-query';
+import type { KeyId } from './query-keys';
+
+/**
+ * Pagination styles supported by the factories below
+ */
+export type PaginationStyle = 'offset' | 'cursor' | 'keyset';
+
+/**
+ * One page of a list; extra fields of the envelope are kept
+ */
+export interface Page<T> {
+  items: T[];
+  /** Number of items on the server, when the backend reports it */
+  total?: number;
+}
+
+/**
+ * Page of an offset / page-number endpoint (`?page=2&pageSize=20`)
+ */
+export interface OffsetPage<T> extends Page<T> {
+  /** 1-based page number */
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+/**
+ * Page of a cursor endpoint (`?cursor=abc&limit=20`)
+ */
+export interface CursorPage<T> extends Page<T> {
+  /** Cursor of the next page, null on the last page */
+  nextCursor: string | null;
+  /** Cursor of the previous page, when the backend pages backwards (needed by maxPages) */
+  prevCursor?: string | null;
+}
+
+/**
+ * Page of a keyset endpoint (`?after=<last sort key>&limit=20`)
+ */
+export interface KeysetPage<T> extends Page<T> {
+  hasNext: boolean;
+  /** Items exist before the first one, when the backend supports `before` (needed by maxPages) */
+  hasPrevious?: boolean;
+}
+
+export interface OffsetParams {
+  /** 1-based page number */
+  page: number;
+  pageSize: number;
+  /** `(page - 1) * pageSize`, for `offset` / `limit` backends */
+  offset: number;
+}
+
+export interface CursorParams {
+  /** Undefined for the first page */
+  cursor?: string;
+  limit: number;
+}
+
+export interface KeysetParams<TKey = KeyId> {
+  /** Items after this sort key (next page); both undefined for the first page */
+  after?: TKey;
+  /** Items before this sort key (previous page, in the same order as every page) */
+  before?: TKey;
+  limit: number;
+}
+
+/**
+ * Options shared by the infinite query factories
+ */
+export interface InfinitePageOptions<TQueryKey extends QueryKey, TParams, TPage> {
+  /** Usually `keys.infinite(filters)` */
+  queryKey: TQueryKey;
+  fetchPage: (params: TParams, signal: AbortSignal) => Promise<TPage>;
+  /** Items per page (default: 20) */
+  pageSize?: number;
+  /** Pages kept in the cache; the oldest page is dropped when a new one arrives (default: no limit) */
+  maxPages?: number;
+}
+
+export interface KeysetPageOptions<TQueryKey extends QueryKey, TItem, TKey>
+  extends InfinitePageOptions<TQueryKey, KeysetParams<TKey>, KeysetPage<TItem>> {
+  /** Sort key of an item, sent as `after` / `before` (default: `item.id`) */
+  getKey?: (item: TItem) => TKey;
+}
+
+/**
+ * Default number of items per page
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Infinite query over an offset / page-number endpoint
+ *
+ * @example
+ * ```typescript
+ * infinite: (filters?: UserFilters) =>
+ *   offsetInfiniteOptions({
+ *     queryKey: userKeys.infinite(filters),
+ *     fetchPage: (params, signal) => userApi.getPage(filters, params, signal),
+ *   }),
+ * ```
+ */
+export function offsetInfiniteOptions<const TQueryKey extends QueryKey, TItem>(
+  options: InfinitePageOptions<TQueryKey, OffsetParams, OffsetPage<TItem>>
+) {
+  const { pageSize = DEFAULT_PAGE_SIZE } = options;
+
+  return infiniteQueryOptions({
+    queryKey: options.queryKey,
+    queryFn: ({ pageParam, signal }) =>
+      options.fetchPage({ page: pageParam, pageSize, offset: (pageParam - 1) * pageSize }, signal),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.items.length > 0 && lastPage.page * lastPage.pageSize < lastPage.total ? lastPage.page + 1 : undefined,
+    getPreviousPageParam: (firstPage) => (firstPage.page > 1 ? firstPage.page - 1 : undefined),
+    maxPages: options.maxPages,
+  });
+}
+
+/**
+ * Infinite query over a cursor endpoint
+ *
+ * @example
+ * ```typescript
+ * infinite: (filters?: UserFilters) =>
+ *   cursorInfiniteOptions({
+ *     queryKey: userKeys.infinite(filters),
+ *     fetchPage: (params, signal) => userApi.getPage(filters, params, signal),
+ *     maxPages: 10,
+ *   }),
+ * ```
+ */
+export function cursorInfiniteOptions<const TQueryKey extends QueryKey, TItem>(
+  options: InfinitePageOptions<TQueryKey, CursorParams, CursorPage<TItem>>
+) {
+  const { pageSize = DEFAULT_PAGE_SIZE } = options;
+
+  return infiniteQueryOptions({
+    queryKey: options.queryKey,
+    queryFn: ({ pageParam, signal }) => options.fetchPage({ cursor: pageParam ?? undefined, limit: pageSize }, signal),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    getPreviousPageParam: (firstPage) => firstPage.prevCursor ?? undefined,
+    maxPages: options.maxPages,
+  });
+}
+
+/**
+ * Infinite query over a keyset endpoint: the next page starts after the sort
+ * key of the last item, so inserts and deletes never shift pages
+ *
+ * @example
+ * ```typescript
+ * infinite: (filters?: UserFilters) =>
+ *   keysetInfiniteOptions({
+ *     queryKey: userKeys.infinite(filters),
+ *     fetchPage: (params, signal) => userApi.getPage(filters, params, signal),
+ *     getKey: (user) => user.createdAt.toISOString(),
+ *   }),
+ * ```
+ */
+export function keysetInfiniteOptions<const TQueryKey extends QueryKey, TItem, TKey = IdOf<TItem>>(
+  options: KeysetPageOptions<TQueryKey, TItem, TKey>
+) {
+  const { pageSize = DEFAULT_PAGE_SIZE } = options;
+  const getKey = options.getKey ?? ((item: TItem) => (item as { id: TKey }).id);
+
+  return infiniteQueryOptions({
+    queryKey: options.queryKey,
+    queryFn: ({ pageParam, signal }) => options.fetchPage({ ...pageParam, limit: pageSize }, signal),
+    initialPageParam: {} as KeysetCursor<TKey>,
+    getNextPageParam: (lastPage): KeysetCursor<TKey> | undefined =>
+      lastPage.hasNext && lastPage.items.length > 0 ? { after: getKey(lastPage.items[lastPage.items.length - 1]) } : undefined,
+    getPreviousPageParam: (firstPage): KeysetCursor<TKey> | undefined =>
+      firstPage.hasPrevious && firstPage.items.length > 0 ? { before: getKey(firstPage.items[0]) } : undefined,
+    maxPages: options.maxPages,
+  });
+}
+
+/**
+ * Page with every item mapped (DTO → domain), other envelope fields kept
+ *
+ * @example
+ * ```typescript
+ * const page = await apiClient.get<CursorPage<UserDto>>('users', { searchParams: { ...params }, signal });
+ * return mapPageItems(page, mapDtoToDomain); // CursorPage<User>
+ * ```
+ */
+export function mapPageItems<TPage extends Page<unknown>, TItem>(
+  page: TPage,
+  map: (item: TPage['items'][number]) => TItem
+): Omit<TPage, 'items'> & { items: TItem[] } {
+  return { ...page, items: page.items.map(map) };
+}
+
+/**
+ * Every item of the loaded pages, in order (infinite query `select`)
+ *
+ * @example
+ * ```typescript
+ * const { data: users } = useInfiniteQuery({ ...userQueries.infinite(filters), select: flattenPages });
+ * ```
+ */
+export function flattenPages<T>(data: { pages: Page<T>[] }): T[] {
+  return data.pages.flatMap((page) => page.items);
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+type IdOf<TItem> = TItem extends { id: infer TId } ? TId : KeyId;
+
+/**
+ * Page param of a keyset query: first page, or one side of a sort key
+ */
+type KeysetCursor<TKey> = Pick<KeysetParams<TKey>, 'after' | 'before'>;
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: Cursor entity (generated with `fsd-slice.ts entity post --pagination cursor`)
+
+// entities/post/api/post.api.ts
+async getPage(filters: PostFilters | undefined, params: CursorParams, signal?: AbortSignal): Promise<CursorPage<Post>> {
+  const page = await apiClient.get<CursorPage<PostDto>>('api/posts', {
+    searchParams: { ...filters, ...params },
+    signal,
+  });
+  return mapPageItems(page, mapDtoToDomain);
+},
+
+// entities/post/api/post.queries.ts
+infinite: (filters?: PostFilters) =>
+  cursorInfiniteOptions({
+    queryKey: postKeys.infinite(filters), // ['post', 'list', 'infinite', { filters }]
+    fetchPage: (params, signal) => postApi.getPage(filters, params, signal),
+  }),
+
+// ============================================================================
+
+// Example 2: Feed with a window of 5 pages
+
+function PostFeed({ filters }: { filters?: PostFilters }) {
+  const { data: posts, fetchNextPage, fetchPreviousPage, hasNextPage, hasPreviousPage } = useInfiniteQuery({
+    ...postQueries.infinite(filters),
+    maxPages: 5, // needs prevCursor from the backend to scroll back up
+    select: flattenPages,
+  });
+
+  return (
+    <VirtualList
+      items={posts ?? []}
+      onStartReached={() => hasPreviousPage && fetchPreviousPage()}
+      onEndReached={() => hasNextPage && fetchNextPage()}
+    />
+  );
+}
+
+// ============================================================================
+
+// Example 3: Backend envelope that differs from CursorPage
+
+interface ApiPostList {
+  data: PostDto[];
+  meta: { next_cursor: string | null; total_count: number };
+}
+
+async getPage(filters: PostFilters | undefined, params: CursorParams, signal?: AbortSignal): Promise<CursorPage<Post>> {
+  const { data, meta } = await apiClient.get<ApiPostList>('api/posts', {
+    searchParams: { ...filters, cursor: params.cursor, per_page: params.limit },
+    signal,
+  });
+  return { items: data.map(mapDtoToDomain), nextCursor: meta.next_cursor, total: meta.total_count };
+},
+
+// ============================================================================
+
+// Example 4: Numbered pages (offset endpoint without an infinite query)
+
+function UserTable({ page }: { page: number }) {
+  const { data } = useQuery({
+    queryKey: userKeys.list({ page }),
+    queryFn: ({ signal }) => userApi.getPage(undefined, { page, pageSize: DEFAULT_PAGE_SIZE, offset: (page - 1) * DEFAULT_PAGE_SIZE }, signal),
+    placeholderData: keepPreviousData,
+  });
+
+  return <Table rows={data?.items ?? []} pageCount={Math.ceil((data?.total ?? 0) / DEFAULT_PAGE_SIZE)} />;
+}
+
+*/
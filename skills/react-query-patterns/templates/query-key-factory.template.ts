@@ -11,12 +11,16 @@
 // Location: entities/{{entityName}}/api/{{entityName}}.keys.ts
 // ============================================================================
 
+import { createQueryKeys, defineFilters, type QueryKeyOf } from '@/shared/api';
+import type { {{EntityName}}Filters } from '../model';
+
 /**
- * {{EntityName}} Query Key Factory
+ * {{EntityName}} Query Key Factory (see shared/api/query-keys.ts)
  *
  * Hierarchical query key structure for granular cache invalidation:
  * - {{entityName}}Keys.all: Invalidate all {{entityName}} queries
  * - {{entityName}}Keys.lists(): Invalidate all list queries
+ * - {{entityName}}Keys.list(filters): One filtered list
  * - {{entityName}}Keys.details(): Invalidate all detail queries
  * - {{entityName}}Keys.detail(id): Invalidate specific {{entityName}}
  *
@@ -30,75 +34,32 @@
  *
  * // Invalidate specific {{entityName}}
  * queryClient.invalidateQueries({ queryKey: {{entityName}}Keys.detail('123') });
+ *
+ * {{entityName}}Keys.list({ search: 'john' })
+ * // Result: ['{{entityName}}', 'list', { filters: { search: 'john' } }]
+ *
+ * // Filters are normalized: these are all ['{{entityName}}', 'list', { filters: undefined }]
+ * {{entityName}}Keys.list();
+ * {{entityName}}Keys.list({});
+ * {{entityName}}Keys.list({ search: '' });
  * ```
  */
-export const {{entityName}}Keys = {
-  /**
-   * Base key for all {{entityName}} queries
-   * Use this to invalidate everything related to {{entityName}}
-   */
-  all: ['{{entityName}}'] as const,
-
-  /**
-   * Key for all {{entityName}} list queries (without filters)
-   */
-  lists: () => [...{{entityName}}Keys.all, 'list'] as const,
-
-  /**
-   * Key for a specific {{entityName}} list with filters
-   * @param filters - Optional filter parameters
-   *
-   * @example
-   * ```typescript
-   * {{entityName}}Keys.list({ status: 'active', search: 'john' })
-   * // Result: ['{{entityName}}', 'list', { filters: { status: 'active', search: 'john' } }]
-   * ```
-   */
-  list: (filters?: Record<string, unknown>) =>
-    [...{{entityName}}Keys.lists(), { filters }] as const,
-
-  /**
-   * Key for all {{entityName}} detail queries (without IDs)
-   */
-  details: () => [...{{entityName}}Keys.all, 'detail'] as const,
-
-  /**
-   * Key for a specific {{entityName}} detail by ID
-   * @param id - {{EntityName}} ID
-   *
-   * @example
-   * ```typescript
-   * {{entityName}}Keys.detail('123')
-   * // Result: ['{{entityName}}', 'detail', '123']
-   * ```
-   */
-  detail: (id: string) => [...{{entityName}}Keys.details(), id] as const,
-
-  // TODO: Add additional query key patterns if needed
-  // Examples:
-
-  /**
-   * Key for {{entityName}} search queries
-   * @param query - Search query string
-   */
-  // search: (query: string) =>
-  //   [...{{entityName}}Keys.all, 'search', query] as const,
-
-  /**
-   * Key for {{entityName}} by specific field
-   * @param field - Field name
-   * @param value - Field value
-   */
-  // byField: (field: string, value: string) =>
-  //   [...{{entityName}}Keys.all, 'by', field, value] as const,
-
-  /**
-   * Key for infinite query
-   * @param filters - Optional filter parameters
-   */
-  // infinite: (filters?: Record<string, unknown>) =>
-  //   [...{{entityName}}Keys.all, 'infinite', { filters }] as const,
-};
+export const {{entityName}}Keys = createQueryKeys('{{entityName}}', {
+  // TODO: Declare array filters whose order does not matter, e.g. { unordered: ['tags'] }
+  filters: defineFilters<{{EntityName}}Filters>(),
+
+  // TODO: Add custom keys if needed (appended to ['{{entityName}}'])
+  keys: {
+    // search: (query: string) => ['search', query] as const,
+    // byField: (field: string, value: string) => ['by', field, value] as const,
+  },
+
+  // TODO: Add resources nested under a {{entityName}} if needed
+  // (appended to ['{{entityName}}', 'detail', id])
+  resources: {
+    // orders: {},
+  },
+});
 
 // ============================================================================
 // Type Exports
@@ -108,9 +69,7 @@ export const {{entityName}}Keys = {
  * Type helper for {{entityName}} query keys
  * Useful for type-safe cache manipulation
  */
-export type {{EntityName}}QueryKey = ReturnType<
-  typeof {{entityName}}Keys[keyof typeof {{entityName}}Keys]
->;
+export type {{EntityName}}QueryKey = QueryKeyOf<typeof {{entityName}}Keys>;
 
 // ============================================================================
 // USAGE EXAMPLES
@@ -215,7 +174,7 @@ function {{EntityName}}List() {
     // Prefetch detail on hover
     queryClient.prefetchQuery({
       queryKey: {{entityName}}Keys.detail(id),
-      queryFn: () => {{entityName}}Api.getById(id),
+      queryFn: ({ signal }) => {{entityName}}Api.getById(id, signal),
     });
   };
 
@@ -235,31 +194,16 @@ function {{EntityName}}List() {
 
 // ============================================================================
 
-// Example 5: Manual cache manipulation
+// Example 5: Manual cache manipulation (see shared/api/entity-cache.ts)
+
+import { createEntityCache } from '@/shared/api';
 
 function useManualCacheUpdate() {
-  const queryClient = useQueryClient();
+  const {{entityName}}Cache = createEntityCache<{{EntityName}}>(useQueryClient(), {{entityName}}Keys);
 
   const updateCache = (id: string, updates: Partial<{{EntityName}}>) => {
-    // Update specific {{entityName}} in cache
-    queryClient.setQueryData(
-      {{entityName}}Keys.detail(id),
-      (old{{EntityName}}: {{EntityName}} | undefined) => {
-        if (!old{{EntityName}}) return undefined;
-        return { ...old{{EntityName}}, ...updates };
-      }
-    );
-
-    // Also update in lists
-    queryClient.setQueriesData(
-      { queryKey: {{entityName}}Keys.lists() },
-      (oldData: {{EntityName}}[] | undefined) => {
-        if (!oldData) return undefined;
-        return oldData.map((item) =>
-          item.id === id ? { ...item, ...updates } : item
-        );
-      }
-    );
+    // Detail and every list (plain, paginated or infinite) in one call
+    return {{entityName}}Cache.patch(id, updates);
   };
 
   return { updateCache };
@@ -267,20 +211,19 @@ function useManualCacheUpdate() {
 
 // ============================================================================
 
-// Example 6: Cache inspection
+// Example 6: Cache inspection (see shared/api/query-key-registry.ts)
+
+import { groupQueriesByFamily, logQueryCache } from '@/shared/api';
 
 function useCacheDebug() {
   const queryClient = useQueryClient();
 
   const inspectCache = () => {
-    // Get all {{entityName}} queries in cache
-    const cache = queryClient.getQueryCache();
-    const {{entityName}}Queries = cache
-      .getAll()
-      .filter((query) =>
-        query.queryKey[0] === '{{entityName}}'
-      );
+    // One row per key family: queries, observed, stale, fetching
+    logQueryCache(queryClient);
 
+    // All {{entityName}} queries in cache
+    const {{entityName}}Queries = groupQueriesByFamily(queryClient).{{entityName}} ?? [];
     console.log('{{EntityName}} queries in cache:', {{entityName}}Queries);
 
     // Get specific {{entityName}} from cache
@@ -302,53 +245,71 @@ function useCacheDebug() {
 /*
 // Pattern 1: Query key with multiple parameters
 
-export const {{entityName}}Keys = {
-  // ... existing keys ...
-
-  byStatus: (status: string, filters?: Record<string, unknown>) =>
-    [...{{entityName}}Keys.all, 'by-status', status, { filters }] as const,
+export const {{entityName}}Keys = createQueryKeys('{{entityName}}', {
+  filters: defineFilters<{{EntityName}}Filters>(),
+  keys: {
+    byStatus: (status: string, filters?: {{EntityName}}Filters) => ['by-status', status, { filters }] as const,
+    byDateRange: (startDate: Date, endDate: Date) => ['by-date-range', { startDate, endDate }] as const,
+  },
+});
 
-  byDateRange: (startDate: Date, endDate: Date) =>
-    [...{{entityName}}Keys.all, 'by-date-range', { startDate, endDate }] as const,
-};
+// Dates become ISO strings, so equal ranges share a cache entry:
+// ['{{entityName}}', 'by-date-range', { endDate: '2025-01-31T00:00:00.000Z', startDate: '2025-01-01T00:00:00.000Z' }]
+{{entityName}}Keys.byDateRange(new Date('2025-01-01'), new Date('2025-01-31'));
+
+// Custom keys get the default normalization only; apply the entity's policy
+// to filters in custom keys with normalizeFilters
+const {{entityName}}Filters = defineFilters<{{EntityName}}Filters>({ unordered: ['tags'] });
+export const {{entityName}}Keys = createQueryKeys('{{entityName}}', {
+  filters: {{entityName}}Filters,
+  keys: {
+    byStatus: (status: string, filters?: {{EntityName}}Filters) =>
+      ['by-status', status, { filters: normalizeFilters(filters, {{entityName}}Filters) }] as const,
+  },
+});
 
 // ============================================================================
 
 // Pattern 2: Nested resource keys
 
-export const {{entityName}}Keys = {
-  // ... existing keys ...
-
-  // {{entityName}}'s related resources
-  orders: ({{entityName}}Id: string) =>
-    [...{{entityName}}Keys.detail({{entityName}}Id), 'orders'] as const,
+export const {{entityName}}Keys = createQueryKeys('{{entityName}}', {
+  filters: defineFilters<{{EntityName}}Filters>(),
+  resources: {
+    // {{entityName}}'s related resources, with their own list / detail keys
+    orders: { filters: defineFilters<OrderFilters>() },
+  },
+});
 
-  order: ({{entityName}}Id: string, orderId: string) =>
-    [...{{entityName}}Keys.orders({{entityName}}Id), orderId] as const,
-};
+// ['{{entityName}}', 'detail', 'user-123', 'orders']
+{{entityName}}Keys.orders('user-123').all;
+// ['{{entityName}}', 'detail', 'user-123', 'orders', 'detail', 'order-1']
+{{entityName}}Keys.orders('user-123').detail('order-1');
 
 // Usage:
 queryClient.invalidateQueries({
-  queryKey: {{entityName}}Keys.orders('user-123')
+  queryKey: {{entityName}}Keys.orders('user-123').all
 });
 
 // ============================================================================
 
 // Pattern 3: Query key with sorting
 
-export const {{entityName}}Keys = {
-  // ... existing keys ...
-
-  listSorted: (
-    filters?: Record<string, unknown>,
-    sortBy?: string,
-    sortOrder?: 'asc' | 'desc'
-  ) =>
-    [
-      ...{{entityName}}Keys.lists(),
-      { filters, sort: { by: sortBy, order: sortOrder } }
-    ] as const,
-};
+// Sorting is part of the filters, so every sorted list is under lists()
+export interface {{EntityName}}Filters {
+  search?: string;
+  tags?: string[];
+  sortBy?: 'name' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export const {{entityName}}Keys = createQueryKeys('{{entityName}}', {
+  // Tag order is irrelevant to the backend; sort order obviously is not
+  filters: defineFilters<{{EntityName}}Filters>({ unordered: ['tags'] }),
+});
+
+// Same key: ['{{entityName}}', 'list', { filters: { search: 'kim', sortBy: 'name', sortOrder: 'asc', tags: ['a', 'b'] } }]
+{{entityName}}Keys.list({ search: 'kim', sortBy: 'name', sortOrder: 'asc', tags: ['b', 'a'] });
+{{entityName}}Keys.list({ tags: ['a', 'b'], sortOrder: 'asc', sortBy: 'name', search: 'kim' });
 
 */
 
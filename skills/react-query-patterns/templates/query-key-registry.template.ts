@@ -0,0 +1,259 @@
+// ============================================================================
+// Query Key Registry Template
+// ============================================================================
+// This template generates the registry of query key families: every
+// `createQueryKeys('user', ...)` registers its root key here, so that
+// - two slices claiming the same root (a feature reusing an entity's name)
+//   fail at startup in development instead of sharing cache entries silently,
+//   and near-identical roots (`order` / `orders`) are flagged as well;
+// - devtools and debug helpers can list every family and group the live
+//   queries of a QueryClient by family.
+//
+// Location: shared/api/query-key-registry.ts
+// ============================================================================
+
+import type { Query, QueryClient } from '@tanstack/react-query';
+
+/**
+ * Root key registered by a key factory
+ */
+export interface KeyFamily {
+  /** Root key segment, e.g. 'user' */
+  name: string;
+  /** URL of the module that created the factory (development only, from the stack trace) */
+  source?: string;
+}
+
+/**
+ * How near-matches (`order` / `Orders`) are reported in development
+ */
+export type NearMatchPolicy = 'warn' | 'error';
+
+export interface KeyRegistryOptions {
+  /** Default: 'warn' */
+  nearMatches?: NearMatchPolicy;
+}
+
+/**
+ * Two key factories claim the same root key (`exact`), or roots that only
+ * differ in case, separators or plural
+ */
+export class QueryKeyCollisionError extends Error {
+  constructor(
+    public readonly existing: KeyFamily,
+    public readonly incoming: KeyFamily,
+    public readonly exact = true
+  ) {
+    super(
+      `Query key root '${incoming.name}'${incoming.source ? ` (${incoming.source})` : ''} ` +
+        `${exact ? 'collides with' : 'is nearly the same as'} ` +
+        `'${existing.name}'${existing.source ? ` (${existing.source})` : ''}. Rename one of the key factories.`
+    );
+    this.name = 'QueryKeyCollisionError';
+  }
+}
+
+/**
+ * Queries in a QueryClient that belong to no registered family
+ */
+export const UNREGISTERED_FAMILY = '(unregistered)';
+
+const families = new Map<string, KeyFamily>();
+let nearMatches: NearMatchPolicy = 'warn';
+
+/**
+ * Configure the registry before the key factories are created
+ *
+ * @example
+ * ```typescript
+ * configureKeyRegistry({ nearMatches: 'error' }); // `order` next to `orders` fails at startup
+ * ```
+ */
+export function configureKeyRegistry(options: KeyRegistryOptions): void {
+  nearMatches = options.nearMatches ?? nearMatches;
+}
+
+/**
+ * Register a root key (createQueryKeys does this for every entity)
+ *
+ * In development the same root twice throws QueryKeyCollisionError, and a
+ * root that only differs in case, separators or plural (`order` / `Orders`,
+ * `order-item` / `orderItems`) warns, or throws with
+ * `configureKeyRegistry({ nearMatches: 'error' })`. A module registering its
+ * own name again (hot reload, when the stack trace names the module) just
+ * replaces the entry. Production keeps the first registration and checks
+ * nothing.
+ */
+export function registerKeyFamily(name: string): KeyFamily {
+  const family: KeyFamily = { name, source: import.meta.env.DEV ? callerModule() : undefined };
+  const existing = families.get(name);
+
+  if (existing && import.meta.env.DEV) {
+    if (!sameModule(existing, family)) {
+      throw new QueryKeyCollisionError(existing, family);
+    }
+  }
+
+  if (!existing && import.meta.env.DEV) {
+    const id = familyId(name);
+    const similar = [...families.values()].find(
+      (other) => familyId(other.name) === id && !sameModule(other, family)
+    );
+    if (similar) {
+      const error = new QueryKeyCollisionError(similar, family, false);
+      if (nearMatches === 'error') throw error;
+      console.warn(`[QueryKeys] ${error.message}`);
+    }
+  }
+
+  if (!existing || import.meta.env.DEV) {
+    families.set(name, family);
+  }
+  return family;
+}
+
+/**
+ * Every registered key family, sorted by name
+ *
+ * @example
+ * ```typescript
+ * listKeyFamilies(); // [{ name: 'order', source: '/src/entities/order/api/order.keys.ts' }, { name: 'user', ... }]
+ * ```
+ */
+export function listKeyFamilies(): KeyFamily[] {
+  return [...families.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Family a query key belongs to, if its root is registered
+ */
+export function findKeyFamily(queryKey: readonly unknown[]): KeyFamily | undefined {
+  const [root] = queryKey;
+  return typeof root === 'string' ? families.get(root) : undefined;
+}
+
+/**
+ * Live queries of `queryClient` grouped by key family (queries outside every
+ * family under UNREGISTERED_FAMILY)
+ *
+ * @example
+ * ```typescript
+ * const groups = groupQueriesByFamily(queryClient);
+ * groups.user?.length;                  // user queries in the cache
+ * groups[UNREGISTERED_FAMILY];          // keys written by hand
+ * ```
+ */
+export function groupQueriesByFamily(queryClient: QueryClient): Record<string, Query[]> {
+  const groups: Record<string, Query[]> = {};
+  for (const query of queryClient.getQueryCache().getAll()) {
+    const name = findKeyFamily(query.queryKey)?.name ?? UNREGISTERED_FAMILY;
+    (groups[name] ??= []).push(query);
+  }
+  return groups;
+}
+
+/**
+ * Print one row per family: query count, active observers, stale and
+ * fetching queries (development debugging)
+ *
+ * @example
+ * ```typescript
+ * // Browser console
+ * logQueryCache(queryClient);
+ * ```
+ */
+export function logQueryCache(queryClient: QueryClient): void {
+  const groups = groupQueriesByFamily(queryClient);
+  const rows = Object.entries(groups).map(([family, queries]) => ({
+    family,
+    queries: queries.length,
+    observed: queries.filter((query) => query.getObserversCount() > 0).length,
+    stale: queries.filter((query) => query.isStale()).length,
+    fetching: queries.filter((query) => query.state.fetchStatus === 'fetching').length,
+  }));
+  console.table(rows);
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Whether both families come from the same module (hot reload). An unknown
+ * source (stack format not recognized) never counts as the same module.
+ */
+function sameModule(a: KeyFamily, b: KeyFamily): boolean {
+  return a.source !== undefined && a.source === b.source;
+}
+
+/**
+ * Near-match id of a root key: lower case, no separators, singular (`-us`
+ * and `-ss` endings such as `status` stay whole). Exact collisions never
+ * depend on it: an odd plural costs a false near-match at worst.
+ */
+function familyId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[-_\s]/g, '')
+    .replace(/ies$/, 'y')
+    .replace(/(ss|x|z|ch|sh)es$/, '$1')
+    .replace(/([^su])s$/, '$1');
+}
+
+/**
+ * Module that called createQueryKeys, without line numbers and query strings
+ * (Vite appends `?t=` on hot reload)
+ */
+function callerModule(): string | undefined {
+  const frames = new Error().stack?.split('\n') ?? [];
+  const caller = frames.find((frame) => /\.(m?[jt]sx?)\b/.test(frame) && !/query-key(s|-registry)\./.test(frame));
+  const location = caller?.match(/(?:\(|@|at )([^()\s]+?\.m?[jt]sx?)(?:\?[^:)]*)?(?::\d+)*\)?\s*$/);
+  return location?.[1];
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: Collision at startup (development)
+
+// entities/order/api/order.keys.ts
+export const orderKeys = createQueryKeys('order');
+
+// features/checkout/api/checkout.keys.ts
+export const checkoutKeys = createQueryKeys('order');
+// QueryKeyCollisionError: Query key root 'order' (/src/features/checkout/api/checkout.keys.ts)
+// collides with 'order' (/src/entities/order/api/order.keys.ts). Rename one of the key factories.
+
+// Fix: give the feature its own root, or use the entity's keys
+export const checkoutKeys = createQueryKeys('checkout');
+
+// Near-match: a warning by default
+export const orderListKeys = createQueryKeys('orders');
+// [QueryKeys] Query key root 'orders' (/src/features/order-list/api/order-list.keys.ts)
+// is nearly the same as 'order' (/src/entities/order/api/order.keys.ts). Rename one of the key factories.
+
+// shared/api/query-client.ts (before any key factory): fail instead of warning
+configureKeyRegistry({ nearMatches: 'error' });
+
+// ============================================================================
+
+// Example 2: Cache inspection
+
+// shared/lib/debug.ts
+import { groupQueriesByFamily, listKeyFamilies, logQueryCache } from '@/shared/api';
+
+if (import.meta.env.DEV) {
+  // Log the families whenever a query enters or leaves the cache
+  queryClient.getQueryCache().subscribe((event) => {
+    if (event.type === 'added' || event.type === 'removed') logQueryCache(queryClient);
+  });
+}
+
+listKeyFamilies().map((family) => family.name); // ['order', 'product', 'user']
+
+const userQueries = groupQueriesByFamily(queryClient).user ?? [];
+console.log(userQueries.map((query) => query.queryKey));
+
+*/
@@ -0,0 +1,357 @@
+// ============================================================================
+// Query Keys Template
+// ============================================================================
+// This template generates `createQueryKeys`, the typed builder behind every
+// entity's key factory (entities/*/api/*.keys.ts). Each entity gets the same
+// hierarchy:
+//
+//   all         ['user']
+//   lists()     ['user', 'list']
+//   list(f)     ['user', 'list', { filters: f }]
+//   infinite(f) ['user', 'list', 'infinite', { filters: f }]
+//   details()   ['user', 'detail']
+//   detail(id)  ['user', 'detail', id]
+//
+// plus its own custom keys (under `all`) and nested resources (under
+// `detail(id)`), all inferred as readonly tuples. Every root key is
+// registered in query-key-registry.ts, which rejects collisions in
+// development.
+//
+// Filters are normalized before they enter a key, so equal filters share one
+// cache entry: empty values are dropped (`{}`, `{ search: '' }` and no
+// filters are the same list), object keys are sorted, Dates become ISO
+// strings and arrays declared `unordered` are sorted.
+//
+// Location: shared/api/query-keys.ts
+// ============================================================================
+
+import { registerKeyFamily } from './query-key-registry';
+
+/**
+ * Value accepted as an entity or resource ID in a key
+ */
+export type KeyId = string | number;
+
+/**
+ * Custom key: extra segments appended to the entity's root key. Return them
+ * `as const` to keep the tuple type.
+ */
+export type KeyBuilder = (...args: any[]) => readonly unknown[];
+
+/**
+ * How an entity's filters are normalized in its keys
+ */
+export interface FilterPolicy<TFilters extends object> {
+  /** Array filters whose order does not matter (`tags: ['b', 'a']` = `['a', 'b']`); sorted in the key */
+  unordered?: readonly ArrayFilterKeys<TFilters>[];
+  /** Filters kept when empty ('', null, [], {}) because the backend treats empty differently from absent */
+  keepEmpty?: readonly (keyof TFilters & string)[];
+}
+
+/**
+ * Filter type and normalization policy of an entity's `list(filters)` key
+ * (see defineFilters)
+ */
+export interface FilterSpec<TFilters extends object> extends FilterPolicy<TFilters> {
+  /** Type only, never set */
+  readonly __filters?: TFilters;
+}
+
+/**
+ * Value as it appears in a key: Dates as ISO strings, empty values optional
+ */
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends readonly (infer U)[]
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]?: Serialized<T[K]> }
+      : T;
+
+/**
+ * Key definition of an entity or a nested resource
+ */
+export interface QueryKeysDefinition<TFilters extends object = object> {
+  /** Filters accepted by `list()` (default: any object) */
+  filters?: FilterSpec<TFilters>;
+  /** Custom keys under the root: `search: (query: string) => ['search', query] as const` */
+  keys?: Record<string, KeyBuilder>;
+  /** Resources under `detail(id)`, each with the same hierarchy: `orders: {}` */
+  resources?: Record<string, QueryKeysDefinition<any>>;
+}
+
+/**
+ * Standard key hierarchy below `TRoot`
+ */
+export interface StandardKeys<TRoot extends readonly unknown[], TFilters extends object> {
+  /** Every query of the entity */
+  all: TRoot;
+  /** Every list, whatever its filters */
+  lists(): readonly [...TRoot, 'list'];
+  /** `filters` normalized: no filters, `{}` and `{ search: '' }` are the same key */
+  list(filters?: TFilters): readonly [...TRoot, 'list', { filters: Serialized<TFilters> | undefined }];
+  /** Infinite query of a list (see shared/api/pagination.ts), apart from `list(filters)` whose data is one page */
+  infinite(filters?: TFilters): readonly [...TRoot, 'list', 'infinite', { filters: Serialized<TFilters> | undefined }];
+  /** Every detail */
+  details(): readonly [...TRoot, 'detail'];
+  detail<TId extends KeyId>(id: TId): readonly [...TRoot, 'detail', TId];
+}
+
+/**
+ * Keys produced by createQueryKeys for a definition
+ */
+export type QueryKeys<TRoot extends readonly unknown[], TDefinition extends QueryKeysDefinition<any>> = StandardKeys<
+  TRoot,
+  FiltersOf<TDefinition>
+> &
+  CustomKeys<TRoot, PartOf<TDefinition, 'keys'>> &
+  ResourceKeys<TRoot, PartOf<TDefinition, 'resources'>>;
+
+/**
+ * Union of every key a factory can produce (custom and nested keys included)
+ *
+ * @example
+ * ```typescript
+ * export type UserQueryKey = QueryKeyOf<typeof userKeys>;
+ * ```
+ */
+export type QueryKeyOf<TKeys> = {
+  [K in keyof TKeys]: TKeys[K] extends (...args: any[]) => infer R
+    ? R extends readonly unknown[]
+      ? R
+      : QueryKeyOf<R>
+    : TKeys[K] extends readonly unknown[]
+      ? TKeys[K]
+      : never;
+}[keyof TKeys];
+
+/**
+ * Declare the filter type of an entity's `list(filters)` key and how it is
+ * normalized. Interfaces work as-is (no index signature needed).
+ *
+ * @example
+ * ```typescript
+ * createQueryKeys('user', {
+ *   filters: defineFilters<UserFilters>({ unordered: ['roles'] }),
+ * });
+ * ```
+ */
+export function defineFilters<TFilters extends object>(policy: FilterPolicy<TFilters> = {}): FilterSpec<TFilters> {
+  return policy;
+}
+
+/**
+ * Filters as they appear in a key (see FilterPolicy), or `undefined` when
+ * nothing is left
+ *
+ * @example
+ * ```typescript
+ * normalizeFilters({ search: '', tags: ['b', 'a'], from: new Date(0) }, { unordered: ['tags'] });
+ * // { from: '1970-01-01T00:00:00.000Z', tags: ['a', 'b'] }
+ * ```
+ */
+export function normalizeFilters<TFilters extends object>(
+  filters: TFilters | undefined,
+  policy: FilterPolicy<TFilters> = {}
+): Serialized<TFilters> | undefined {
+  if (!filters) return undefined;
+
+  const unordered: readonly string[] = policy.unordered ?? [];
+  const keepEmpty: readonly string[] = policy.keepEmpty ?? [];
+  const entries = Object.keys(filters)
+    .sort()
+    .flatMap((name) => {
+      const value = serializeKeyPart((filters as Record<string, unknown>)[name]);
+      if (isEmpty(value) && !keepEmpty.includes(name)) return [];
+      return [[name, Array.isArray(value) && unordered.includes(name) ? [...value].sort(compareKeyParts) : value]];
+    });
+
+  return entries.length > 0 ? (Object.fromEntries(entries) as Serialized<TFilters>) : undefined;
+}
+
+/**
+ * Build an entity's query keys
+ *
+ * Custom keys and resources cannot replace the standard keys: every entity
+ * keeps the same `all / lists / list / infinite / details / detail` shape.
+ * `name` must be unique across the app (see registerKeyFamily).
+ *
+ * @example
+ * ```typescript
+ * export const userKeys = createQueryKeys('user', {
+ *   filters: defineFilters<UserFilters>(),
+ *   keys: {
+ *     search: (query: string) => ['search', query] as const,
+ *   },
+ *   resources: {
+ *     orders: { filters: defineFilters<OrderFilters>() },
+ *   },
+ * });
+ *
+ * userKeys.list({ search: 'kim' });    // ['user', 'list', { filters: { search: 'kim' } }]
+ * userKeys.search('kim');              // ['user', 'search', 'kim']
+ * userKeys.orders('1').detail('o-9');  // ['user', 'detail', '1', 'orders', 'detail', 'o-9']
+ * ```
+ */
+export function createQueryKeys<const TName extends string, const TDefinition extends QueryKeysDefinition<any> = {}>(
+  name: TName,
+  definition?: TDefinition
+): QueryKeys<readonly [TName], TDefinition> {
+  registerKeyFamily(name);
+  return buildKeys([name] as const, definition ?? ({} as TDefinition));
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+type FiltersOf<TDefinition> = TDefinition extends { filters?: FilterSpec<infer TFilters> } ? TFilters : object;
+
+type PartOf<TDefinition, TPart extends 'keys' | 'resources'> = TDefinition extends { [P in TPart]: infer T } ? T : {};
+
+type CustomKeys<TRoot extends readonly unknown[], TKeys> = {
+  [K in keyof TKeys]: TKeys[K] extends (...args: infer A) => infer R
+    ? R extends readonly unknown[]
+      ? (...args: A) => readonly [...TRoot, ...{ [I in keyof R]: Serialized<R[I]> }]
+      : never
+    : never;
+};
+
+type ArrayFilterKeys<TFilters> = {
+  [K in keyof TFilters & string]-?: NonNullable<TFilters[K]> extends readonly unknown[] ? K : never;
+}[keyof TFilters & string];
+
+type ResourceKeys<TRoot extends readonly unknown[], TResources> = {
+  [K in keyof TResources & string]: TResources[K] extends QueryKeysDefinition<any>
+    ? <TId extends KeyId>(id: TId) => QueryKeys<readonly [...TRoot, 'detail', TId, K], TResources[K]>
+    : never;
+};
+
+function buildKeys<TRoot extends readonly unknown[], TDefinition extends QueryKeysDefinition<any>>(
+  root: TRoot,
+  definition: TDefinition
+): QueryKeys<TRoot, TDefinition> {
+  const custom = Object.fromEntries(
+    Object.entries(definition.keys ?? {}).map(([name, build]) => [
+      name,
+      (...args: unknown[]) => [...root, ...build(...args).map(serializeKeyPart)],
+    ])
+  );
+  const resources = Object.fromEntries(
+    Object.entries(definition.resources ?? {}).map(([name, resource]) => [
+      name,
+      (id: KeyId) => buildKeys([...root, 'detail', id, name], resource),
+    ])
+  );
+  const standard: StandardKeys<TRoot, any> = {
+    all: root,
+    lists: () => [...root, 'list'] as const,
+    list: (filters) => [...root, 'list', { filters: normalizeFilters(filters, definition.filters) }] as const,
+    infinite: (filters) => [...root, 'list', 'infinite', { filters: normalizeFilters(filters, definition.filters) }] as const,
+    details: () => [...root, 'detail'] as const,
+    detail: (id) => [...root, 'detail', id] as const,
+  };
+
+  return { ...custom, ...resources, ...standard } as QueryKeys<TRoot, TDefinition>;
+}
+
+/**
+ * Key segment with Dates as ISO strings and plain objects rebuilt with sorted
+ * keys and without empty values (custom key segments, nested filters)
+ */
+function serializeKeyPart(value: unknown): unknown {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeKeyPart);
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((name) => [name, serializeKeyPart(value[name])] as const)
+      .filter(([, part]) => !isEmpty(part));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return isPlainObject(value) && Object.keys(value).length === 0;
+}
+
+/**
+ * Deterministic order for unordered arrays: numbers numerically, anything
+ * else by its JSON form
+ */
+function compareKeyParts(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const left = JSON.stringify(a);
+  const right = JSON.stringify(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: Entity keys
+
+// entities/user/api/user.keys.ts
+import { createQueryKeys, defineFilters, type QueryKeyOf } from '@/shared/api';
+import type { UserFilters } from '../model';
+
+export const userKeys = createQueryKeys('user', {
+  filters: defineFilters<UserFilters>(),
+});
+
+export type UserQueryKey = QueryKeyOf<typeof userKeys>;
+
+queryClient.invalidateQueries({ queryKey: userKeys.lists() });    // every user list
+queryClient.invalidateQueries({ queryKey: userKeys.detail(id) }); // one user
+
+// ============================================================================
+
+// Example 2: Custom keys
+
+export const productKeys = createQueryKeys('product', {
+  filters: defineFilters<ProductFilters>(),
+  keys: {
+    search: (query: string) => ['search', query] as const,
+    byField: (field: keyof Product, value: string) => ['by', field, value] as const,
+    byStatus: (status: ProductStatus, filters?: ProductFilters) => ['by-status', status, { filters }] as const,
+    byDateRange: (startDate: Date, endDate: Date) => ['by-date-range', { startDate, endDate }] as const,
+  },
+});
+
+productKeys.byField('sku', 'A-1'); // readonly ['product', 'by', keyof Product, string]
+
+// ============================================================================
+
+// Example 3: Nested resources
+
+export const userKeys = createQueryKeys('user', {
+  resources: {
+    orders: {
+      filters: defineFilters<OrderFilters>(),
+      resources: { items: {} },
+    },
+  },
+});
+
+userKeys.orders('u-1').all;                   // ['user', 'detail', 'u-1', 'orders']
+userKeys.orders('u-1').list({ status: 'paid' });
+userKeys.orders('u-1').items('o-9').lists();  // ['user', 'detail', 'u-1', 'orders', 'detail', 'o-9', 'items', 'list']
+
+// Invalidating userKeys.detail('u-1') also refreshes the user's orders
+
+*/
@@ -7,11 +7,14 @@
 // Usage:
 //   Replace {{entityName}} with camelCase name (e.g., user, product)
 //   Replace {{EntityName}} with PascalCase name (e.g., User, Product)
+//   Replace {{pagination}} with the list endpoint's pagination style
+//   (offset, cursor or keyset; see shared/api/pagination.ts)
 //
 // Location: entities/{{entityName}}/api/{{entityName}}.queries.ts
 // ============================================================================
 
-import { queryOptions, infiniteQueryOptions } from '@tanstack/react-query';
+import { queryOptions } from '@tanstack/react-query';
+import { {{pagination}}InfiniteOptions } from '@/shared/api';
 import { {{entityName}}Api } from './{{entityName}}.api';
 import { {{entityName}}Keys } from './{{entityName}}.keys';
 import type { {{EntityName}}, {{EntityName}}Filters } from '../model';
@@ -52,7 +55,7 @@ export const {{entityName}}Queries = {
   all: (filters?: {{EntityName}}Filters) =>
     queryOptions({
       queryKey: {{entityName}}Keys.list(filters),
-      queryFn: () => {{entityName}}Api.getAll(filters),
+      queryFn: ({ signal }) => {{entityName}}Api.getAll(filters, signal),
       staleTime: 1000 * 60 * 5, // 5 minutes - adjust based on data freshness needs
       gcTime: 1000 * 60 * 10, // 10 minutes - formerly cacheTime
       // retry: 1, // Retry failed requests once
@@ -75,18 +78,18 @@ export const {{entityName}}Queries = {
   detail: (id: string) =>
     queryOptions({
       queryKey: {{entityName}}Keys.detail(id),
-      queryFn: () => {{entityName}}Api.getById(id),
+      queryFn: ({ signal }) => {{entityName}}Api.getById(id, signal),
       staleTime: 1000 * 60 * 5, // 5 minutes
       gcTime: 1000 * 60 * 10, // 10 minutes
       // enabled: !!id, // Only run query if ID exists
     }),
 
-  // TODO: Add additional query patterns as needed
-  // Examples below:
-
   /**
    * Infinite query for paginated {{entityName}} lists
    *
+   * Pages come from `{{entityName}}Api.getPage(filters, params, signal)`,
+   * which returns the {{pagination}} page envelope (`{ items, ... }`).
+   *
    * @param filters - Optional filters
    * @returns Infinite query options
    *
@@ -96,23 +99,19 @@ export const {{entityName}}Queries = {
    *   data,
    *   fetchNextPage,
    *   hasNextPage,
-   * } = useInfiniteQuery({{entityName}}Queries.infinite());
+   * } = useInfiniteQuery({ ...{{entityName}}Queries.infinite(), select: flattenPages });
    * ```
    */
-  // infinite: (filters?: {{EntityName}}Filters) =>
-  //   infiniteQueryOptions({
-  //     queryKey: {{entityName}}Keys.infinite(filters),
-  //     queryFn: ({ pageParam }) =>
-  //       {{entityName}}Api.getAll({ ...filters, page: pageParam }),
-  //     initialPageParam: 1,
-  //     getNextPageParam: (lastPage, allPages) => {
-  //       return lastPage.hasMore ? allPages.length + 1 : undefined;
-  //     },
-  //     getPreviousPageParam: (firstPage, allPages) => {
-  //       return allPages.length > 1 ? allPages.length - 1 : undefined;
-  //     },
-  //     staleTime: 1000 * 60 * 5,
-  //   }),
+  infinite: (filters?: {{EntityName}}Filters) =>
+    {{pagination}}InfiniteOptions({
+      queryKey: {{entityName}}Keys.infinite(filters),
+      fetchPage: (params, signal) => {{entityName}}Api.getPage(filters, params, signal),
+      pageSize: 20,
+      maxPages: 10, // Window: pages beyond 10 are dropped and refetched on scroll back
+    }),
+
+  // TODO: Add additional query patterns as needed
+  // Examples below:
 
   /**
    * Query for {{entityName}} search
@@ -341,7 +340,7 @@ export const {{entityName}}Queries = {
   detail: (id: string) =>
     queryOptions({
       queryKey: {{entityName}}Keys.detail(id),
-      queryFn: () => {{entityName}}Api.getById(id),
+      queryFn: ({ signal }) => {{entityName}}Api.getById(id, signal),
       placeholderData: (previousData) => previousData, // Keep previous data while fetching
     }),
 };
@@ -350,14 +349,16 @@ export const {{entityName}}Queries = {
 
 // Pattern 2: Query with retry logic
 
+import { isHttpError } from '@/shared/api';
+
 export const {{entityName}}Queries = {
   detail: (id: string) =>
     queryOptions({
       queryKey: {{entityName}}Keys.detail(id),
-      queryFn: () => {{entityName}}Api.getById(id),
+      queryFn: ({ signal }) => {{entityName}}Api.getById(id, signal),
       retry: (failureCount, error) => {
-        // Don't retry on 404
-        if (error.response?.status === 404) return false;
+        // Don't retry on 404 (ApiClient throws NotFoundError)
+        if (isHttpError(error, 404)) return false;
         // Retry up to 3 times
         return failureCount < 3;
       },
@@ -372,7 +373,7 @@ export const {{entityName}}Queries = {
   detail: (id: string) =>
     queryOptions({
       queryKey: {{entityName}}Keys.detail(id),
-      queryFn: () => {{entityName}}Api.getById(id),
+      queryFn: ({ signal }) => {{entityName}}Api.getById(id, signal),
       staleTime: (query) => {
         const data = query.state.data;
         // Fresh data stays fresh longer
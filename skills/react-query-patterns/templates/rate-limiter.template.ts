@@ -0,0 +1,261 @@
+// ============================================================================
+// Rate Limiter Template
+// ============================================================================
+// This template generates the client-side rate limiter of ApiClient: a token
+// bucket and a concurrency limit per origin, two priority lanes (requests the
+// user is waiting for go before prefetches) and cancellation of queued
+// requests through their AbortSignal. ApiClient uses it through
+// `rateLimitMiddleware` (see middleware.ts).
+//
+// Requests start in FIFO order within a lane, whether earlier ones succeed or
+// fail. Only `setTimeout` and `Date.now` are used, so fake timers
+// (vi.useFakeTimers / jest.useFakeTimers) drive it in tests.
+//
+// Location: shared/api/rate-limiter.ts
+// ============================================================================
+
+/**
+ * Priority lane: `user` requests always start before queued `prefetch` ones
+ */
+export type RequestLane = 'user' | 'prefetch';
+
+/**
+ * Limits of one origin
+ */
+export interface RateLimit {
+  /** Requests allowed per interval (token bucket refill rate, default: 10) */
+  requestsPerInterval?: number;
+  /** Interval in ms (default: 1000) */
+  interval?: number;
+  /** Bucket size: requests that may start at once after a quiet period (default: requestsPerInterval) */
+  burst?: number;
+  /** Requests in flight at the same time (default: 6) */
+  maxConcurrent?: number;
+}
+
+export interface RateLimiterOptions extends RateLimit {
+  /** Per-origin overrides, e.g. { 'https://search.example.com': { requestsPerInterval: 2 } } */
+  origins?: Record<string, RateLimit>;
+}
+
+export interface ScheduleOptions {
+  /** Origin whose bucket and concurrency limit apply */
+  origin: string;
+  /** Default: 'user' */
+  lane?: RequestLane;
+  /** Aborting removes the request from the queue (a started request is left to its own signal) */
+  signal?: AbortSignal | null;
+}
+
+export interface RateLimiter {
+  /** Run `task` once its origin has a free slot and a token */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T>;
+  /** Requests waiting for a slot (all origins, or one) */
+  pending(origin?: string): number;
+  /** Reject every queued request, e.g. on logout */
+  clear(reason?: unknown): void;
+}
+
+/**
+ * Token bucket + concurrency queue per origin
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter({ requestsPerInterval: 5, interval: 1000, maxConcurrent: 4 });
+ *
+ * export const apiClient = new ApiClient({ prefixUrl }).use(rateLimitMiddleware(limiter));
+ *
+ * // Prefetches wait behind everything the user is waiting for
+ * apiClient.get(`users/${id}`, { lane: 'prefetch' });
+ * ```
+ */
+export function createRateLimiter(options: RateLimiterOptions = {}): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  const bucketFor = (origin: string): Bucket => {
+    let bucket = buckets.get(origin);
+    if (!bucket) {
+      const limit = resolveLimit({ ...options, ...options.origins?.[origin] });
+      bucket = { limit, tokens: limit.burst, refilledAt: Date.now(), active: 0, user: [], prefetch: [] };
+      buckets.set(origin, bucket);
+    }
+    return bucket;
+  };
+
+  const drain = (bucket: Bucket) => {
+    refill(bucket);
+
+    while (bucket.active < bucket.limit.maxConcurrent) {
+      const lane = bucket.user.length > 0 ? bucket.user : bucket.prefetch;
+      if (lane.length === 0) break;
+
+      if (bucket.tokens < 1) {
+        // Wake up when the next token is due
+        if (bucket.timer === undefined) {
+          const wait = ((1 - bucket.tokens) * bucket.limit.interval) / bucket.limit.requestsPerInterval;
+          bucket.timer = setTimeout(() => {
+            bucket.timer = undefined;
+            drain(bucket);
+          }, Math.ceil(wait));
+        }
+        break;
+      }
+
+      const entry = lane.shift()!;
+      bucket.tokens -= 1;
+      bucket.active += 1;
+      entry.start();
+    }
+  };
+
+  return {
+    schedule<T>(task: () => Promise<T>, { origin, lane = 'user', signal }: ScheduleOptions): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const bucket = bucketFor(origin);
+        const queue = bucket[lane];
+        const onAbort = () => {
+          queue.splice(queue.indexOf(entry), 1);
+          reject(signal!.reason);
+        };
+        const entry: QueueEntry = {
+          start: () => {
+            signal?.removeEventListener('abort', onAbort);
+            let running: Promise<T>;
+            try {
+              running = task();
+            } catch (error) {
+              running = Promise.reject(error);
+            }
+            running
+              .then(resolve, reject)
+              .finally(() => {
+                bucket.active -= 1;
+                drain(bucket);
+              });
+          },
+          reject: (reason) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(reason);
+          },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(entry);
+        drain(bucket);
+      });
+    },
+
+    pending(origin?: string): number {
+      const counted = origin === undefined ? [...buckets.values()] : [buckets.get(origin)];
+      return counted.reduce((total, bucket) => total + (bucket ? bucket.user.length + bucket.prefetch.length : 0), 0);
+    },
+
+    clear(reason: unknown = new DOMException('Rate limiter cleared', 'AbortError')): void {
+      for (const bucket of buckets.values()) {
+        for (const entry of bucket.user.splice(0).concat(bucket.prefetch.splice(0))) {
+          entry.reject(reason);
+        }
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+interface QueueEntry {
+  start(): void;
+  reject(reason: unknown): void;
+}
+
+interface Bucket {
+  limit: Required<RateLimit>;
+  /** Fractional tokens accumulate between refills */
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  user: QueueEntry[];
+  prefetch: QueueEntry[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+function resolveLimit(limit: RateLimit): Required<RateLimit> {
+  const requestsPerInterval = limit.requestsPerInterval ?? 10;
+  return {
+    requestsPerInterval,
+    interval: limit.interval ?? 1000,
+    burst: limit.burst ?? requestsPerInterval,
+    maxConcurrent: limit.maxConcurrent ?? 6,
+  };
+}
+
+function refill(bucket: Bucket): void {
+  const now = Date.now();
+  const earned = ((now - bucket.refilledAt) / bucket.limit.interval) * bucket.limit.requestsPerInterval;
+  bucket.tokens = Math.min(bucket.limit.burst, bucket.tokens + earned);
+  bucket.refilledAt = now;
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: One limiter per client
+
+// shared/api/client.ts
+import { createRateLimiter } from './rate-limiter';
+import { rateLimitMiddleware } from './middleware';
+
+export const apiClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_API_BASE_URL,
+}).use(
+  rateLimitMiddleware(
+    createRateLimiter({
+      requestsPerInterval: 10,
+      interval: 1000,
+      maxConcurrent: 6,
+      origins: {
+        // Third-party search API allows 2 requests per second
+        'https://search.example.com': { requestsPerInterval: 2, burst: 2 },
+      },
+    })
+  )
+);
+
+// ============================================================================
+
+// Example 2: Prefetch lane
+
+// Hovering a row prefetches the detail; a click still goes first
+queryClient.prefetchQuery({
+  queryKey: userKeys.detail(id),
+  queryFn: ({ signal }) => apiClient.get(`users/${id}`, { signal, lane: 'prefetch' }),
+});
+
+// Leaving the page aborts the signal: queued requests never start
+
+// ============================================================================
+
+// Example 3: Test with fake timers (vitest)
+
+vi.useFakeTimers();
+const limiter = createRateLimiter({ requestsPerInterval: 1, interval: 1000 });
+const started: string[] = [];
+const run = (name: string) => limiter.schedule(async () => started.push(name), { origin: 'https://api.test' });
+
+run('a');
+run('b');
+run('c');
+expect(started).toEqual(['a']);
+
+await vi.advanceTimersByTimeAsync(1000);
+expect(started).toEqual(['a', 'b']);
+
+*/
@@ -0,0 +1,216 @@
+// ============================================================================
+// Retry Policy Template
+// ============================================================================
+// This template generates the retry policy of ApiClient: which methods and
+// status codes are retried, how many attempts are made, exponential backoff
+// with full jitter, Retry-After on 429/503, and an Idempotency-Key header for
+// retried POST/PATCH requests.
+//
+// Transport failures are retried by ApiClient only. React Query's `retry`
+// must not retry them again (3 client attempts × 4 query attempts = 12
+// requests): `createQueryRetry()` only retries errors ApiClient did not handle.
+//
+// Location: shared/api/retry.ts
+// ============================================================================
+
+import { isApiError, isHttpError, isNetworkError, isTimeoutError, type ApiError } from './errors';
+
+export type RetryMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'PUT' | 'DELETE' | 'POST' | 'PATCH';
+
+/**
+ * When and how ApiClient retries a failed request
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (default: 3; 1 = never retry) */
+  maxAttempts?: number;
+  /**
+   * Methods that may be retried (default: GET, HEAD, OPTIONS, PUT, DELETE).
+   * Add POST / PATCH only when the backend honours Idempotency-Key.
+   */
+  methods?: RetryMethod[];
+  /** Response statuses worth retrying (default: 408, 429, 500, 502, 503, 504) */
+  statusCodes?: number[];
+  /** Retry network errors and timeouts (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Delay before the first retry in ms, doubled on every retry (default: 300) */
+  baseDelay?: number;
+  /** Upper bound of the backoff delay in ms (default: 10_000) */
+  maxDelay?: number;
+  /** Full jitter: wait a random time between 0 and the backoff delay (default: true) */
+  jitter?: boolean;
+  /** Statuses whose Retry-After header is honoured (default: 429, 503) */
+  retryAfterStatusCodes?: number[];
+  /** Give up instead of waiting longer than this for Retry-After, in ms (default: 60_000) */
+  maxRetryAfter?: number;
+  /**
+   * Header carrying one key per logical request on every attempt of a
+   * retried POST / PATCH, or `false` to send none (default: 'Idempotency-Key')
+   */
+  idempotencyKey?: string | false;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  jitter: true,
+  retryAfterStatusCodes: [429, 503],
+  maxRetryAfter: 60_000,
+  idempotencyKey: 'Idempotency-Key',
+};
+
+/**
+ * Complete a policy with the defaults. A number is a retry count, as in
+ * ky's `retry` option (`2` = 3 attempts).
+ *
+ * @example
+ * ```typescript
+ * resolveRetryPolicy(0);                      // maxAttempts: 1
+ * resolveRetryPolicy({ methods: ['GET'] });  // GETs only, other defaults
+ * ```
+ */
+export function resolveRetryPolicy(policy: number | RetryPolicy = {}, base = DEFAULT_RETRY_POLICY): Required<RetryPolicy> {
+  if (typeof policy === 'number') {
+    return { ...base, maxAttempts: policy + 1 };
+  }
+
+  const defined = Object.entries(policy).filter(([, value]) => value !== undefined);
+  return { ...base, ...Object.fromEntries(defined) };
+}
+
+/**
+ * Delay before the next attempt, or `null` when the request must not be retried
+ *
+ * @param attempt - Attempts made so far (1 after the first failure)
+ *
+ * @example
+ * ```typescript
+ * retryDelay(policy, 'GET', new ServerError('Down', 503), 1);  // 0–300 ms
+ * retryDelay(policy, 'POST', new ServerError('Down', 503), 1); // null (POST not in methods)
+ * retryDelay(policy, 'GET', notFound, 1);                      // null (404 not in statusCodes)
+ * ```
+ */
+export function retryDelay(policy: Required<RetryPolicy>, method: string, error: ApiError, attempt: number): number | null {
+  if (attempt >= policy.maxAttempts) return null;
+  if (!policy.methods.includes(method.toUpperCase() as RetryMethod)) return null;
+
+  if (isHttpError(error)) {
+    if (!policy.statusCodes.includes(error.status)) return null;
+
+    const retryAfter = policy.retryAfterStatusCodes.includes(error.status) ? error.retryAfter : undefined;
+    if (retryAfter === undefined) {
+      return backoff(policy, attempt);
+    }
+    // The server said when to come back; no jitter, and no endless waits
+    return retryAfter <= policy.maxRetryAfter ? retryAfter : null;
+  }
+
+  // Aborts and validation errors fail the same way every time
+  const transient = isNetworkError(error) || isTimeoutError(error);
+  return transient && policy.retryOnNetworkError ? backoff(policy, attempt) : null;
+}
+
+/**
+ * Idempotency key header a request with this method carries, if any: only
+ * POST / PATCH that the policy retries
+ */
+export function idempotencyKeyHeader(policy: Required<RetryPolicy>, method: string): string | null {
+  const upper = method.toUpperCase() as RetryMethod;
+  const retried = policy.maxAttempts > 1 && (upper === 'POST' || upper === 'PATCH') && policy.methods.includes(upper);
+  return retried && policy.idempotencyKey !== false ? policy.idempotencyKey : null;
+}
+
+/**
+ * Random idempotency key (UUID v4 where crypto is available)
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * React Query `retry` that leaves transport failures to ApiClient: errors the
+ * client already retried (or chose not to) fail at once; anything else (e.g.
+ * a queryFn that throws on its own) is retried up to `limit` times.
+ *
+ * @example
+ * ```typescript
+ * new QueryClient({ defaultOptions: { queries: { retry: createQueryRetry() } } });
+ * ```
+ */
+export function createQueryRetry(limit = 1): (failureCount: number, error: unknown) => boolean {
+  return (failureCount, error) => {
+    if (isApiError(error) && error.attempts !== undefined) return false;
+    return failureCount < limit;
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Exponential backoff (base × 2^(attempt - 1), capped), with full jitter
+ */
+function backoff(policy: Required<RetryPolicy>, attempt: number): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example 1: Client-wide policy
+
+// shared/api/client.ts
+export const apiClient = new ApiClient({
+  prefixUrl: import.meta.env.VITE_API_BASE_URL,
+  retry: {
+    maxAttempts: 4,
+    methods: ['GET', 'PUT', 'DELETE', 'POST'], // POST retried with an Idempotency-Key
+    maxDelay: 5_000,
+  },
+});
+
+// 503 with "Retry-After: 2" → waits 2 s (no jitter); "Retry-After: 600" → gives up
+// 500 → waits 0–300 ms, then 0–600 ms, then 0–1200 ms
+
+// ============================================================================
+
+// Example 2: Per-request override
+
+await apiClient.post('payments', payment, { retry: 0 });                    // never retried
+await apiClient.get('reports/daily', { retry: { maxAttempts: 6, baseDelay: 1_000 } });
+
+// ============================================================================
+
+// Example 3: React Query does not retry on top of the client
+
+// shared/api/query-client.ts
+import { createQueryRetry } from './retry';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: createQueryRetry() },
+    mutations: { retry: 0 },
+  },
+});
+
+// ============================================================================
+
+// Example 4: Unit test with fake timers (vitest)
+
+vi.useFakeTimers();
+vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+const request = apiClient.get('flaky'); // first attempt: 503
+await vi.advanceTimersByTimeAsync(150);  // 0.5 × 300 ms → second attempt
+
+*/
@@ -0,0 +1,201 @@
+// ============================================================================
+// Token Store Template
+// ============================================================================
+// This template generates the access token storage used by ApiClient:
+// memory, localStorage, sessionStorage and cookie stores behind one
+// interface, plus cross-tab logout sync.
+//
+// Location: shared/api/token-store.ts
+// ============================================================================
+
+/**
+ * Where ApiClient keeps the access token
+ *
+ * Stores must not throw when their backing storage is missing (SSR, web
+ * workers): they behave as empty instead.
+ */
+export interface TokenStore {
+  get(): string | null;
+  set(token: string): void;
+  clear(): void;
+  /**
+   * Listen for changes made by another tab (`null` = logged out there)
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe?(listener: (token: string | null) => void): () => void;
+}
+
+/**
+ * Options for the cookie token store
+ */
+export interface CookieTokenStoreOptions {
+  /** Cookie name (default: 'auth_token') */
+  name?: string;
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds (default: session cookie) */
+  maxAge?: number;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Default: true */
+  secure?: boolean;
+}
+
+const DEFAULT_KEY = 'auth_token';
+
+/**
+ * Token kept in memory only — SSR, web workers, or apps that keep the
+ * refresh token in an httpOnly cookie and renew the access token on load
+ *
+ * @example
+ * ```typescript
+ * export const apiClient = new ApiClient({
+ *   prefixUrl: import.meta.env.VITE_API_BASE_URL,
+ *   tokenStore: createMemoryTokenStore(),
+ * });
+ * ```
+ */
+export function createMemoryTokenStore(initialToken: string | null = null): TokenStore {
+  let token = initialToken;
+
+  return {
+    get: () => token,
+    set: (value) => {
+      token = value;
+    },
+    clear: () => {
+      token = null;
+    },
+  };
+}
+
+/**
+ * Token in localStorage (default store); other tabs are notified through
+ * `storage` events
+ */
+export function createLocalStorageTokenStore(key = DEFAULT_KEY): TokenStore {
+  return {
+    ...createWebStorageTokenStore(() => globalThis.localStorage, key),
+    subscribe: (listener) => {
+      if (typeof window === 'undefined') return () => {};
+
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea === globalThis.localStorage && (event.key === key || event.key === null)) {
+          listener(event.newValue);
+        }
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+}
+
+/**
+ * Token in sessionStorage: one login per tab. Wrap it with `withBroadcastSync`
+ * to log out every tab at once.
+ */
+export function createSessionStorageTokenStore(key = DEFAULT_KEY): TokenStore {
+  return createWebStorageTokenStore(() => globalThis.sessionStorage, key);
+}
+
+/**
+ * Token in a (non-httpOnly) cookie, e.g. shared with a server-rendered app.
+ * Cookies raise no events; wrap it with `withBroadcastSync` for cross-tab logout.
+ */
+export function createCookieTokenStore(options: CookieTokenStoreOptions = {}): TokenStore {
+  const name = options.name ?? DEFAULT_KEY;
+  const attributes = [
+    `path=${options.path ?? '/'}`,
+    options.domain && `domain=${options.domain}`,
+    `SameSite=${options.sameSite ?? 'Lax'}`,
+    options.secure !== false && 'Secure',
+  ].filter(Boolean);
+
+  const write = (value: string, maxAge?: number) => {
+    if (typeof document === 'undefined') return;
+    const lifetime = maxAge === undefined ? [] : [`max-age=${maxAge}`];
+    document.cookie = [`${name}=${encodeURIComponent(value)}`, ...attributes, ...lifetime].join('; ');
+  };
+
+  return {
+    get: () => {
+      if (typeof document === 'undefined') return null;
+      const cookie = document.cookie.split('; ').find((entry) => entry.startsWith(`${name}=`));
+      return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+    },
+    set: (token) => write(token, options.maxAge),
+    clear: () => write('', 0),
+  };
+}
+
+/**
+ * Broadcast logins and logouts to the other tabs through a BroadcastChannel
+ * (for stores without their own events: memory, sessionStorage, cookie).
+ * Returns the store unchanged where BroadcastChannel is unavailable.
+ *
+ * @example
+ * ```typescript
+ * tokenStore: withBroadcastSync(createCookieTokenStore({ maxAge: 60 * 60 })),
+ * ```
+ */
+export function withBroadcastSync(store: TokenStore, channelName = 'auth'): TokenStore {
+  if (typeof BroadcastChannel === 'undefined') return store;
+
+  const channel = new BroadcastChannel(channelName);
+  const listeners = new Set<(token: string | null) => void>();
+
+  channel.addEventListener('message', (event: MessageEvent<{ token: string | null }>) => {
+    // Apply without re-broadcasting, then notify (ApiClient logs this tab out)
+    const { token } = event.data;
+    if (token === null) {
+      store.clear();
+    } else {
+      store.set(token);
+    }
+    listeners.forEach((listener) => listener(token));
+  });
+
+  return {
+    get: () => store.get(),
+    set: (token) => {
+      store.set(token);
+      channel.postMessage({ token });
+    },
+    clear: () => {
+      // Only an actual logout is announced, so tabs never echo each other
+      if (store.get() === null) return;
+      store.clear();
+      channel.postMessage({ token: null });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      const unsubscribe = store.subscribe?.(listener);
+      return () => {
+        listeners.delete(listener);
+        unsubscribe?.();
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function createWebStorageTokenStore(storage: () => Storage | undefined, key: string): TokenStore {
+  // Storage can be missing (SSR, workers) or throw (blocked third-party storage)
+  const access = <T>(action: (store: Storage) => T, fallback: T): T => {
+    try {
+      const store = storage();
+      return store ? action(store) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  return {
+    get: () => access((store) => store.getItem(key), null),
+    set: (token) => access((store) => store.setItem(key, token), undefined),
+    clear: () => access((store) => store.removeItem(key), undefined),
+  };
+}